@@ -0,0 +1,88 @@
+import express, { Router, Request, Response } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { authenticateClient } from '@modelcontextprotocol/sdk/server/auth/middleware/clientAuth.js';
+import { WhatsAppOAuthProvider } from './oauth-provider.js';
+
+const DEFAULT_PRUNE_AGE_DAYS = 30;
+
+/** Whether a request carries the admin token, as `Authorization: Bearer` or `?token=`. */
+function hasAdminToken(req: Request, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : String(req.query.token ?? ''));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Local JSON API to manage the OAuth clients that registered dynamically:
+ * list them with their live tokens, revoke a client's tokens, delete a
+ * registration, and prune stale ones. Every request needs the admin token
+ * (printed in the server log), since MCP clients must not manage each other.
+ */
+export function createOAuthAdminRouter(provider: WhatsAppOAuthProvider, token: string): Router {
+  const router = Router();
+
+  router.use((req: Request, res: Response, next) => {
+    if (!hasAdminToken(req, token)) {
+      res.status(403).json({ error: 'Missing or wrong admin token. It is printed in the server log.' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/clients', (_req: Request, res: Response) => {
+    res.json({ clients: provider.listClients() });
+  });
+
+  router.post('/clients/:id/revoke', (req: Request, res: Response) => {
+    res.json({ revoked: provider.revokeClientTokens(String(req.params.id)) });
+  });
+
+  router.delete('/clients/:id', (req: Request, res: Response) => {
+    if (!provider.deleteClient(String(req.params.id))) {
+      res.status(404).json({ error: `Unknown client: ${req.params.id}` });
+      return;
+    }
+    res.json({ deleted: req.params.id });
+  });
+
+  // Registrations older than ?min_age_days (default 30) without live tokens
+  router.post('/prune', (req: Request, res: Response) => {
+    const days = req.query.min_age_days === undefined ? DEFAULT_PRUNE_AGE_DAYS : Number(req.query.min_age_days);
+    if (!Number.isFinite(days) || days < 0) {
+      res.status(400).json({ error: 'min_age_days must be a non-negative number.' });
+      return;
+    }
+    res.json({ deleted: provider.pruneClients(days * 24 * 60 * 60) });
+  });
+
+  return router;
+}
+
+/**
+ * RFC 7662 token introspection. Callers authenticate either with the admin
+ * token (any token is reported) or as an OAuth client via client_id and,
+ * for confidential clients, client_secret (only its own tokens are reported).
+ */
+export function createIntrospectionRouter(provider: WhatsAppOAuthProvider, adminToken: string): Router {
+  const router = Router();
+  const clientAuth = authenticateClient({ clientsStore: provider.clientsStore });
+
+  router.post('/', express.urlencoded({ extended: false }), (req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    const respond = (clientId?: string): void => {
+      if (typeof req.body?.token !== 'string') {
+        res.status(400).json({ error: 'invalid_request', error_description: 'token is required' });
+        return;
+      }
+      res.json(provider.introspect(req.body.token, clientId));
+    };
+    if (hasAdminToken(req, adminToken)) {
+      respond();
+      return;
+    }
+    void clientAuth(req, res, () => respond(req.client!.client_id));
+  });
+
+  return router;
+}
@@ -1,22 +1,24 @@
 import { Router, Request, Response } from 'express';
 import qrcode from 'qrcode';
 import { WhatsAppOAuthProvider } from './oauth-provider.js';
-import { WhatsAppService } from '../services/whatsapp.js';
+import { AccountLimitError } from '../services/accounts.js';
 import { log } from '../utils/logger.js';
+import { grantedScopes, SCOPES } from './scopes.js';
 
 const TXN_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
 
 /**
  * Browser-facing part of the OAuth flow: the page a user lands on during
- * authorization. It shows the live WhatsApp QR code (and optionally a
- * pairing-code form) and polls until the WhatsApp client is authenticated,
- * then forwards the browser to /oauth/link/complete which redirects back to
- * the MCP client with the authorization code.
+ * authorization. It first lists the scopes the MCP client asked for with
+ * Allow/Deny buttons; once allowed, it shows the live WhatsApp QR code (and
+ * optionally a pairing-code form) unless WhatsApp is already linked. It polls
+ * until the WhatsApp client is authenticated, then forwards the browser to
+ * /oauth/link/complete which redirects back to the MCP client with the
+ * authorization code. The WhatsApp session is the one the authorization
+ * links (the client's own, per principal); it is not touched, and no
+ * principal's browser is started, before the user allowed the request.
  */
-export function createLinkRouter(
-  provider: WhatsAppOAuthProvider,
-  whatsapp: WhatsAppService,
-): Router {
+export function createLinkRouter(provider: WhatsAppOAuthProvider): Router {
   const router = Router();
 
   const validTxn = (req: Request, res: Response): string | null => {
@@ -30,6 +32,8 @@ export function createLinkRouter(
 
   router.get('/', (req: Request, res: Response) => {
     if (!validTxn(req, res)) return;
+    // The Allow button must not be clickable from another site's frame
+    res.set('X-Frame-Options', 'DENY');
     res.type('html').send(LINK_PAGE_HTML);
   });
 
@@ -37,20 +41,60 @@ export function createLinkRouter(
     const txn = validTxn(req, res);
     if (!txn) return;
 
-    const authenticated = whatsapp.isAuthenticated();
-    const qrString = whatsapp.getLatestQrCode();
-    res.json({
-      authenticated,
-      qrDataUrl: !authenticated && qrString ? await qrcode.toDataURL(qrString) : null,
-      pairingCode: !authenticated ? whatsapp.getLatestPairingCode() : null,
-    });
+    const pending = provider.getTransaction(txn)!;
+    const request = {
+      client: pending.client.client_name ?? pending.client.client_id,
+      scopes: grantedScopes(pending.params.scopes).map((scope) => ({ scope, description: SCOPES[scope] })),
+      consented: !!pending.consented,
+    };
+    if (!pending.consented) {
+      res.json({ ...request, authenticated: false, qrDataUrl: null, pairingCode: null });
+      return;
+    }
+
+    try {
+      const whatsapp = provider.whatsappFor(pending.account);
+      const authenticated = whatsapp.isAuthenticated();
+      const qrString = whatsapp.getLatestQrCode();
+      res.json({
+        ...request,
+        authenticated,
+        qrDataUrl: !authenticated && qrString ? await qrcode.toDataURL(qrString) : null,
+        pairingCode: !authenticated ? whatsapp.getLatestPairingCode() : null,
+      });
+    } catch (error) {
+      if (!(error instanceof AccountLimitError)) throw error;
+      res.status(503).json({ error: error.message });
+    }
+  });
+
+  router.post('/consent', (req: Request, res: Response) => {
+    const txn = validTxn(req, res);
+    if (!txn) return;
+
+    provider.consentTransaction(txn);
+    res.json({ consented: true });
+  });
+
+  router.post('/deny', (req: Request, res: Response) => {
+    const txn = validTxn(req, res);
+    if (!txn) return;
+
+    res.json({ redirect: provider.denyTransaction(txn) });
   });
 
   router.post('/pair', async (req: Request, res: Response) => {
     const txn = validTxn(req, res);
     if (!txn) return;
 
+    const pending = provider.getTransaction(txn)!;
+    if (!pending.consented) {
+      res.status(409).json({ error: 'Allow the authorization request first.' });
+      return;
+    }
+
     try {
+      const whatsapp = provider.whatsappFor(pending.account);
       const code = await whatsapp.requestPairingCode(String(req.body?.phone_number ?? ''));
       res.json({ pairingCode: code });
     } catch (error) {
@@ -107,14 +151,19 @@ const LINK_PAGE_HTML = `<!DOCTYPE html>
   }
   .error { color: #d33; font-size: .85rem; }
   .ok { color: #25d366; font-weight: 600; }
+  button.secondary { background: #8884; color: inherit; }
+  .actions { margin-top: 1rem; display: flex; gap: .5rem; justify-content: center; }
   details { margin-top: 1.2rem; font-size: .85rem; }
+  #scopes { text-align: left; font-size: .85rem; margin: 1rem 0 0; padding-left: 1.2rem; }
+  #scopes code { font-size: .8rem; opacity: .7; }
 </style>
 </head>
 <body>
 <div class="card">
-  <h1>Link your WhatsApp account</h1>
-  <div id="content"><p>Waiting for QR code&hellip;</p></div>
-  <details>
+  <h1>Authorize access to WhatsApp</h1>
+  <div id="consent"><p>Loading&hellip;</p></div>
+  <div id="content"></div>
+  <details id="pairing" hidden>
     <summary>Use a pairing code instead</summary>
     <p>Enter your WhatsApp phone number in international format (e.g. 4915112345678):</p>
     <form id="pair-form">
@@ -127,24 +176,74 @@ const LINK_PAGE_HTML = `<!DOCTYPE html>
 <script>
   const txn = new URLSearchParams(location.search).get('txn');
   const content = document.getElementById('content');
+  const consent = document.getElementById('consent');
+  const pairing = document.getElementById('pairing');
   let pairingActive = false;
+  let scopesShown = false;
+  let deciding = false;
+  const escape = (text) => String(text).replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+
+  function showScopes(s) {
+    if (scopesShown) return;
+    scopesShown = true;
+    consent.innerHTML = '<p><strong>' + escape(s.client) + '</strong> asks to:</p><ul id="scopes">'
+      + s.scopes.map((x) => '<li>' + escape(x.description) + ' <code>' + escape(x.scope) + '</code></li>').join('')
+      + '</ul>'
+      + (s.consented ? '' : '<div class="actions"><button id="allow">Allow</button>'
+        + '<button id="deny" class="secondary">Deny</button></div>');
+    if (s.consented) return;
+    document.getElementById('allow').addEventListener('click', () => decide('consent'));
+    document.getElementById('deny').addEventListener('click', () => decide('deny'));
+  }
+
+  async function decide(action) {
+    if (deciding) return;
+    deciding = true;
+    try {
+      const res = await fetch('/oauth/link/' + action, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txn }),
+      });
+      if (!res.ok) { content.innerHTML = '<p class="error">This authorization request expired. Retry from your MCP client.</p>'; return; }
+      const data = await res.json();
+      if (data.redirect) { location.href = data.redirect; return; }
+      const actions = consent.querySelector('.actions');
+      if (actions) actions.remove();
+      poll();
+    } catch (e) {
+      deciding = false;
+      content.innerHTML = '<p class="error">Failed to send your answer. Please try again.</p>';
+    }
+  }
 
   async function poll() {
     try {
       const res = await fetch('/oauth/link/status?txn=' + encodeURIComponent(txn));
+      if (res.status === 503) {
+        content.innerHTML = '<p class="error">' + escape((await res.json()).error) + '</p>';
+        setTimeout(poll, 30000);
+        return;
+      }
       if (!res.ok) { content.innerHTML = '<p class="error">This authorization request expired. Retry from your MCP client.</p>'; return; }
       const s = await res.json();
+      showScopes(s);
+      // Nothing else happens until the user allowed the request
+      if (!s.consented) return;
       if (s.authenticated) {
-        content.innerHTML = '<p class="ok">WhatsApp linked! Redirecting&hellip;</p>';
+        content.innerHTML = '<p class="ok">WhatsApp is linked. Redirecting&hellip;</p>';
         location.href = '/oauth/link/complete?txn=' + encodeURIComponent(txn);
         return;
       }
+      pairing.hidden = false;
       if (s.pairingCode) {
         content.innerHTML = '<p>Enter this code on your phone (Settings &gt; Linked Devices &gt; Link a device &gt; &quot;Link with phone number instead&quot;):</p>'
           + '<div id="pairing-code">' + s.pairingCode + '</div>';
       } else if (s.qrDataUrl && !pairingActive) {
         content.innerHTML = '<p>Scan with WhatsApp on your phone (Settings &gt; Linked Devices &gt; Link a device):</p>'
           + '<div id="qr"><img alt="WhatsApp QR code" src="' + s.qrDataUrl + '"></div>';
+      } else if (!pairingActive) {
+        content.innerHTML = '<p>Waiting for QR code&hellip;</p>';
       }
     } catch (e) { /* transient network error; keep polling */ }
     setTimeout(poll, 2000);
@@ -1,12 +1,11 @@
 import { Response } from 'express';
 import { createHash, randomBytes, randomUUID } from 'node:crypto';
-import fs from 'fs';
 import { OAuthServerProvider, AuthorizationParams } from '@modelcontextprotocol/sdk/server/auth/provider.js';
 import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
 import {
   InvalidGrantError,
+  InvalidScopeError,
   InvalidTokenError,
-  UnsupportedGrantTypeError,
 } from '@modelcontextprotocol/sdk/server/auth/errors.js';
 import {
   OAuthClientInformationFull,
@@ -14,38 +13,100 @@ import {
   OAuthTokens,
 } from '@modelcontextprotocol/sdk/shared/auth.js';
 import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { PrincipalAccounts } from '../services/accounts.js';
 import { WhatsAppService } from '../services/whatsapp.js';
 import { log } from '../utils/logger.js';
+import { ALL_SCOPES, grantedScopes, isScope, Scope } from './scopes.js';
+import { OAuthStoreFile } from './store-file.js';
 
 const AUTH_CODE_TTL_MS = 60 * 1000; // Authorization codes are single-use and short-lived
 const TXN_TTL_MS = 15 * 60 * 1000; // Pending browser authorizations expire after 15 minutes
-const TOKEN_TTL_S = 30 * 24 * 60 * 60; // Access tokens live 30 days (revoked early on logout)
+const ACCESS_TOKEN_TTL_S = 60 * 60; // Access tokens live an hour; clients refresh them
+const REFRESH_TOKEN_TTL_S = 30 * 24 * 60 * 60; // Each refresh token lives 30 days (revoked early on logout)
 
 interface PendingTransaction {
   client: OAuthClientInformationFull;
   params: AuthorizationParams;
+  // The principal's own WhatsApp account, with MCP_OAUTH_PER_PRINCIPAL
+  account?: string;
   createdAt: number;
+  // The user allowed the request on the link page
+  consented?: boolean;
 }
 
 interface IssuedCode {
   clientId: string;
   codeChallenge: string;
   redirectUri: string;
+  scopes: Scope[];
+  account?: string;
   expiresAt: number;
 }
 
 interface StoredToken {
   clientId: string;
+  scopes: Scope[];
+  // WhatsApp account the token acts on; absent for the server's own (configured) accounts
+  account?: string;
+  // All tokens descending from one authorization share a family (absent on tokens from before refresh support)
+  familyId?: string;
   issuedAt: number;
   expiresAt: number; // seconds since epoch
 }
 
+interface StoredRefreshToken extends StoredToken {
+  familyId: string;
+  // Set once the token was exchanged; it is kept until expiry to detect reuse
+  usedAt?: number;
+}
+
+interface RegisteredClient extends OAuthClientInformationFull {
+  // The client's own WhatsApp account once it linked one (MCP_OAUTH_PER_PRINCIPAL);
+  // kept when its tokens are revoked or expire, so it never links a second device
+  account?: string;
+}
+
 interface PersistedState {
-  clients: Record<string, OAuthClientInformationFull>;
+  clients: Record<string, RegisteredClient>;
   // Keyed by SHA-256 hash of the token, so the store file never contains usable secrets
   tokens: Record<string, StoredToken>;
+  refreshTokens?: Record<string, StoredRefreshToken>;
+}
+
+/** A live token as shown by the admin routes; the token itself is never shown. */
+export interface OAuthTokenSummary {
+  type: 'access_token' | 'refresh_token';
+  familyId?: string;
+  scopes: Scope[];
+  account?: string;
+  issuedAt: number;
+  expiresAt: number;
 }
 
+export interface OAuthClientSummary {
+  clientId: string;
+  clientName?: string;
+  account?: string;
+  registeredAt?: number;
+  redirectUris: string[];
+  tokens: OAuthTokenSummary[];
+}
+
+/** RFC 7662 introspection response. */
+export type IntrospectionResponse =
+  | { active: false }
+  | {
+      active: true;
+      client_id: string;
+      scope: string;
+      // How the token is used in requests (RFC 7662 section 2.2)
+      token_type: 'Bearer';
+      // Non-standard: which of the two tokens of a grant this is
+      token_use: 'access_token' | 'refresh_token';
+      iat: number;
+      exp: number;
+    };
+
 const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
 
 /**
@@ -54,46 +115,68 @@ const sha256 = (value: string): string => createHash('sha256').update(value).dig
  * client reaches the authenticated state. Tokens gate the Streamable HTTP
  * /mcp endpoint and are revoked when the WhatsApp session is invalidated,
  * which makes standards-compliant MCP clients re-run the browser flow.
+ * Access tokens are short-lived; refresh tokens rotate on every use, and
+ * presenting a used one again revokes every token of its family.
+ *
+ * With `principals`, every client links its own WhatsApp account instead of
+ * the server's: its tokens record that account (AuthInfo.extra.account) and
+ * are revoked when that session alone is invalidated.
  */
 export class WhatsAppOAuthProvider implements OAuthServerProvider {
-  private clients: Record<string, OAuthClientInformationFull> = {};
+  private clients: Record<string, RegisteredClient> = {};
   private tokens: Record<string, StoredToken> = {};
+  private refreshTokens: Record<string, StoredRefreshToken> = {};
   private pendingTxns = new Map<string, PendingTransaction>();
   private codes = new Map<string, IssuedCode>();
+  private readonly store: OAuthStoreFile;
 
+  /**
+   * @param storePath JSON file holding client registrations and token hashes
+   * @param storeKey Secret that encrypts the store at rest; null keeps it plain
+   * @param principals Accounts of the clients, when each links its own
+   * @throws OAuthStoreError if the store exists but is corrupt or cannot be decrypted
+   */
   constructor(
     private readonly whatsapp: WhatsAppService,
-    private readonly storePath: string,
+    storePath: string,
+    storeKey: string | null = null,
+    private readonly principals: PrincipalAccounts | null = null,
   ) {
+    this.store = new OAuthStoreFile(storePath, storeKey);
     this.load();
+    principals?.onSessionInvalidated((account) => this.revokeAccountTokens(account));
   }
 
   // --- persistence -----------------------------------------------------
 
   private load(): void {
-    try {
-      if (fs.existsSync(this.storePath)) {
-        const data = JSON.parse(fs.readFileSync(this.storePath, 'utf8')) as PersistedState;
-        this.clients = data.clients ?? {};
-        this.tokens = data.tokens ?? {};
-        const now = Math.floor(Date.now() / 1000);
-        for (const [hash, token] of Object.entries(this.tokens)) {
-          if (token.expiresAt <= now) delete this.tokens[hash];
-        }
-      }
-    } catch (error) {
-      log.warn(`Could not read OAuth store at ${this.storePath}; starting empty.`, error);
-      this.clients = {};
-      this.tokens = {};
+    const data = this.store.read() as PersistedState | null;
+    if (!data) return;
+    this.clients = data.clients ?? {};
+    this.tokens = data.tokens ?? {};
+    this.refreshTokens = data.refreshTokens ?? {};
+    const now = Math.floor(Date.now() / 1000);
+    for (const [hash, token] of Object.entries(this.tokens)) {
+      if (token.expiresAt <= now) delete this.tokens[hash];
+      // Tokens issued before scopes existed keep their full access
+      else token.scopes ??= [...ALL_SCOPES];
+    }
+    for (const [hash, token] of Object.entries(this.refreshTokens)) {
+      if (token.expiresAt <= now) delete this.refreshTokens[hash];
+    }
+    // Stores from before the binding was kept on the client: take the account of its newest refresh token
+    for (const token of Object.values(this.refreshTokens).sort((a, b) => b.issuedAt - a.issuedAt)) {
+      const client = this.clients[token.clientId];
+      if (client && token.account) client.account ??= token.account;
     }
   }
 
   private persist(): void {
     try {
-      const state: PersistedState = { clients: this.clients, tokens: this.tokens };
-      fs.writeFileSync(this.storePath, JSON.stringify(state, null, 2));
+      const state: PersistedState = { clients: this.clients, tokens: this.tokens, refreshTokens: this.refreshTokens };
+      this.store.write(state);
     } catch (error) {
-      log.error(`Could not write OAuth store at ${this.storePath}:`, error);
+      log.error(`Could not write OAuth store at ${this.store.path}:`, error);
     }
   }
 
@@ -120,23 +203,64 @@ export class WhatsAppOAuthProvider implements OAuthServerProvider {
   ): Promise<void> {
     this.sweepExpired();
 
-    // WhatsApp session already linked: nothing for the user to do, approve directly.
-    if (this.whatsapp.isAuthenticated()) {
-      res.redirect(302, this.issueCodeRedirect(client, params));
-      return;
+    const unknown = (params.scopes ?? []).filter((scope) => !isScope(scope));
+    if (unknown.length > 0) {
+      throw new InvalidScopeError(`Unknown scope(s): ${unknown.join(' ')}. Supported: ${ALL_SCOPES.join(' ')}`);
     }
 
+    // A client that linked before keeps its account; a new one links a new number
+    const account = this.principals ? (this.clients[client.client_id]?.account ?? this.principals.newName()) : undefined;
+
+    // Always through the link page: the user allows the requested scopes
+    // there, and links WhatsApp too if it is not linked yet
     const txn = randomUUID();
-    this.pendingTxns.set(txn, { client, params, createdAt: Date.now() });
+    this.pendingTxns.set(txn, { client, params, account, createdAt: Date.now() });
     res.redirect(302, `/oauth/link?txn=${txn}`);
   }
 
+  /**
+   * The WhatsApp session an authorization links: the principal's account
+   * (opened if needed), or the server's own when `account` is undefined.
+   * @throws AccountLimitError if the principal's account would exceed MCP_OAUTH_MAX_ACCOUNTS
+   */
+  whatsappFor(account: string | undefined): WhatsAppService {
+    return account && this.principals ? this.principals.get(account).whatsapp : this.whatsapp;
+  }
+
   /** Look up a pending browser authorization. Used by the QR link page. */
   getTransaction(txn: string): PendingTransaction | undefined {
     this.sweepExpired();
     return this.pendingTxns.get(txn);
   }
 
+  /** Record that the user allowed a pending authorization on the link page. */
+  consentTransaction(txn: string): void {
+    const pending = this.getTransaction(txn);
+    if (!pending) {
+      throw new Error('Unknown or expired authorization transaction.');
+    }
+    pending.consented = true;
+  }
+
+  /**
+   * The user denied a pending authorization on the link page. Consumes the
+   * transaction and returns the redirect URL carrying error=access_denied.
+   */
+  denyTransaction(txn: string): string {
+    const pending = this.getTransaction(txn);
+    if (!pending) {
+      throw new Error('Unknown or expired authorization transaction.');
+    }
+    this.pendingTxns.delete(txn);
+    const redirect = new URL(pending.params.redirectUri);
+    redirect.searchParams.set('error', 'access_denied');
+    if (pending.params.state !== undefined) {
+      redirect.searchParams.set('state', pending.params.state);
+    }
+    log.info(`Authorization denied for client ${pending.client.client_id}`);
+    return redirect.toString();
+  }
+
   /**
    * Complete a pending authorization after WhatsApp reached the authenticated
    * state. Consumes the transaction and returns the redirect URL (carrying the
@@ -147,19 +271,33 @@ export class WhatsAppOAuthProvider implements OAuthServerProvider {
     if (!pending) {
       throw new Error('Unknown or expired authorization transaction.');
     }
-    if (!this.whatsapp.isAuthenticated()) {
+    if (!pending.consented) {
+      throw new Error('The authorization request has not been allowed yet.');
+    }
+    if (!this.whatsappFor(pending.account).isAuthenticated()) {
       throw new Error('WhatsApp is not authenticated yet.');
     }
     this.pendingTxns.delete(txn);
-    return this.issueCodeRedirect(pending.client, pending.params);
+    const registered = this.clients[pending.client.client_id];
+    if (pending.account && registered && registered.account !== pending.account) {
+      registered.account = pending.account;
+      this.persist();
+    }
+    return this.issueCodeRedirect(pending.client, pending.params, pending.account);
   }
 
-  private issueCodeRedirect(client: OAuthClientInformationFull, params: AuthorizationParams): string {
+  private issueCodeRedirect(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    account: string | undefined,
+  ): string {
     const code = randomBytes(32).toString('base64url');
     this.codes.set(code, {
       clientId: client.client_id,
       codeChallenge: params.codeChallenge,
       redirectUri: params.redirectUri,
+      scopes: grantedScopes(params.scopes),
+      account,
       expiresAt: Date.now() + AUTH_CODE_TTL_MS,
     });
     const redirect = new URL(params.redirectUri);
@@ -199,29 +337,79 @@ export class WhatsAppOAuthProvider implements OAuthServerProvider {
     }
     this.codes.delete(authorizationCode); // single-use
 
+    log.info(`Issued tokens for client ${client.client_id} (scopes: ${entry.scopes.join(' ')})`);
+    return this.issueTokens(client.client_id, entry.scopes, entry.scopes, randomUUID(), entry.account);
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[],
+  ): Promise<OAuthTokens> {
+    const hash = sha256(refreshToken);
+    const entry = this.refreshTokens[hash];
+    const now = Math.floor(Date.now() / 1000);
+    if (!entry || entry.clientId !== client.client_id || entry.expiresAt <= now) {
+      throw new InvalidGrantError('Invalid or expired refresh token.');
+    }
+    if (entry.usedAt !== undefined) {
+      // Either the client or someone who stole the token already rotated it
+      this.revokeFamily(entry.familyId);
+      log.warn(`Refresh token reuse by client ${client.client_id}: revoked its token family.`);
+      throw new InvalidGrantError('Refresh token was already used; all tokens of this authorization are revoked.');
+    }
+    const outside = (scopes ?? []).filter((scope) => !entry.scopes.includes(scope as Scope));
+    if (outside.length > 0) {
+      throw new InvalidScopeError(`Scope(s) not granted to this authorization: ${outside.join(' ')}`);
+    }
+
+    entry.usedAt = now;
+    log.info(`Refreshed tokens for client ${client.client_id}`);
+    const granted = scopes?.length ? (scopes as Scope[]) : entry.scopes;
+    return this.issueTokens(client.client_id, granted, entry.scopes, entry.familyId, entry.account);
+  }
+
+  /**
+   * Issue an access token with `scopes` and a refresh token that can later
+   * obtain up to `grant`, both in token family `familyId` and for `account`.
+   */
+  private issueTokens(
+    clientId: string,
+    scopes: Scope[],
+    grant: Scope[],
+    familyId: string,
+    account: string | undefined,
+  ): OAuthTokens {
     const accessToken = randomBytes(32).toString('base64url');
+    const refreshToken = randomBytes(32).toString('base64url');
     const now = Math.floor(Date.now() / 1000);
     this.tokens[sha256(accessToken)] = {
-      clientId: client.client_id,
+      clientId,
+      scopes,
+      familyId,
+      account,
+      issuedAt: now,
+      expiresAt: now + ACCESS_TOKEN_TTL_S,
+    };
+    this.refreshTokens[sha256(refreshToken)] = {
+      clientId,
+      scopes: grant,
+      familyId,
+      account,
       issuedAt: now,
-      expiresAt: now + TOKEN_TTL_S,
+      expiresAt: now + REFRESH_TOKEN_TTL_S,
     };
     this.persist();
-    log.info(`Issued access token for client ${client.client_id}`);
 
     return {
       access_token: accessToken,
       token_type: 'bearer',
-      expires_in: TOKEN_TTL_S,
+      expires_in: ACCESS_TOKEN_TTL_S,
+      refresh_token: refreshToken,
+      scope: scopes.join(' '),
     };
   }
 
-  async exchangeRefreshToken(): Promise<OAuthTokens> {
-    throw new UnsupportedGrantTypeError(
-      'Refresh tokens are not supported; re-run the authorization flow.',
-    );
-  }
-
   // --- verification / revocation -----------------------------------------
 
   async verifyAccessToken(token: string): Promise<AuthInfo> {
@@ -235,11 +423,16 @@ export class WhatsAppOAuthProvider implements OAuthServerProvider {
       }
       throw new InvalidTokenError('Invalid or expired access token.');
     }
+    if (entry.account && !this.principals) {
+      // Never let it fall through to the server's own account
+      throw new InvalidTokenError('Access token belongs to a per-principal account, but MCP_OAUTH_PER_PRINCIPAL is off.');
+    }
     return {
       token,
       clientId: entry.clientId,
-      scopes: [],
+      scopes: entry.scopes,
       expiresAt: entry.expiresAt,
+      ...(entry.account && { extra: { account: entry.account } }),
     };
   }
 
@@ -254,18 +447,167 @@ export class WhatsAppOAuthProvider implements OAuthServerProvider {
       this.persist();
       log.info(`Revoked access token for client ${client.client_id}`);
     }
+    // Revoking a refresh token ends the whole authorization (RFC 7009)
+    const refresh = this.refreshTokens[hash];
+    if (refresh && refresh.clientId === client.client_id) {
+      this.revokeFamily(refresh.familyId);
+      log.info(`Revoked refresh token family for client ${client.client_id}`);
+    }
+  }
+
+  /** Drop the access and refresh tokens descending from one authorization. */
+  private revokeFamily(familyId: string): void {
+    for (const store of [this.tokens, this.refreshTokens]) {
+      for (const [hash, token] of Object.entries(store)) {
+        if (token.familyId === familyId) delete store[hash];
+      }
+    }
+    this.persist();
   }
 
   /**
-   * Drop every issued token, e.g. after the WhatsApp session was unlinked.
-   * Clients then receive 401 on their next request and re-run the flow.
+   * Drop every issued access and refresh token, e.g. after the WhatsApp
+   * session was unlinked. Clients then receive 401 on their next request
+   * and, unable to refresh, re-run the flow.
    */
   revokeAllTokens(): void {
     const count = Object.keys(this.tokens).length;
-    if (count === 0) return;
+    const refreshCount = Object.keys(this.refreshTokens).length;
+    if (count === 0 && refreshCount === 0) return;
     this.tokens = {};
+    this.refreshTokens = {};
+    this.persist();
+    log.warn(`WhatsApp session invalidated: revoked ${count} OAuth access and ${refreshCount} refresh token(s).`);
+  }
+
+  /**
+   * Drop the tokens acting on the server's own accounts, e.g. after its
+   * session was unlinked, keeping those of principals' own accounts.
+   */
+  revokeServerTokens(): void {
+    let count = 0;
+    for (const store of [this.tokens, this.refreshTokens]) {
+      for (const [hash, token] of Object.entries(store)) {
+        if (token.account === undefined) {
+          delete store[hash];
+          count++;
+        }
+      }
+    }
+    if (count === 0) return;
+    this.persist();
+    log.warn(`WhatsApp session invalidated: revoked ${count} OAuth token(s) of the server's own account.`);
+  }
+
+  /** Drop the tokens acting on a principal's account, e.g. after that WhatsApp session was unlinked. */
+  revokeAccountTokens(account: string): void {
+    let count = 0;
+    for (const store of [this.tokens, this.refreshTokens]) {
+      for (const [hash, token] of Object.entries(store)) {
+        if (token.account === account) {
+          delete store[hash];
+          count++;
+        }
+      }
+    }
+    if (count === 0) return;
     this.persist();
-    log.warn(`WhatsApp session invalidated: revoked ${count} OAuth access token(s).`);
+    log.warn(`WhatsApp session of account ${account} invalidated: revoked ${count} OAuth token(s).`);
+  }
+
+  // --- administration ----------------------------------------------------
+
+  /** Registered clients with their live (unexpired, unused) tokens. */
+  listClients(): OAuthClientSummary[] {
+    const tokens = this.liveTokens();
+    return Object.values(this.clients).map((client) => ({
+      clientId: client.client_id,
+      clientName: client.client_name,
+      account: client.account,
+      registeredAt: client.client_id_issued_at,
+      redirectUris: client.redirect_uris.map(String),
+      tokens: tokens
+        .filter(([, token]) => token.clientId === client.client_id)
+        .map(([type, { familyId, scopes, account, issuedAt, expiresAt }]) => ({
+          type,
+          familyId,
+          scopes,
+          account,
+          issuedAt,
+          expiresAt,
+        })),
+    }));
+  }
+
+  /** Drop every token of one client, which then has to re-run the flow. Returns how many were live. */
+  revokeClientTokens(clientId: string): number {
+    const live = this.liveTokens().filter(([, token]) => token.clientId === clientId).length;
+    for (const store of [this.tokens, this.refreshTokens]) {
+      for (const [hash, token] of Object.entries(store)) {
+        if (token.clientId === clientId) delete store[hash];
+      }
+    }
+    this.persist();
+    log.info(`Revoked ${live} OAuth token(s) of client ${clientId}`);
+    return live;
+  }
+
+  /** Remove a client registration and its tokens. Returns false for unknown clients. */
+  deleteClient(clientId: string): boolean {
+    if (!this.clients[clientId]) return false;
+    this.revokeClientTokens(clientId);
+    delete this.clients[clientId];
+    this.persist();
+    log.info(`Deleted OAuth client ${clientId}`);
+    return true;
+  }
+
+  /**
+   * Delete the registrations that are older than `minAgeS` seconds and hold
+   * no live token (e.g. left behind by clients that re-registered).
+   */
+  pruneClients(minAgeS: number): string[] {
+    const cutoff = Math.floor(Date.now() / 1000) - minAgeS;
+    const inUse = new Set(this.liveTokens().map(([, token]) => token.clientId));
+    const stale = Object.values(this.clients)
+      .filter((client) => !inUse.has(client.client_id) && (client.client_id_issued_at ?? 0) <= cutoff)
+      .map((client) => client.client_id);
+    for (const clientId of stale) this.deleteClient(clientId);
+    return stale;
+  }
+
+  /**
+   * RFC 7662 introspection. With `clientId`, only that client's tokens are
+   * reported active, so clients cannot probe each other's tokens.
+   */
+  introspect(token: string, clientId?: string): IntrospectionResponse {
+    const hash = sha256(token);
+    const refresh = this.refreshTokens[hash];
+    const entry = this.tokens[hash] ?? (refresh?.usedAt === undefined ? refresh : undefined);
+    if (!entry || entry.expiresAt <= Math.floor(Date.now() / 1000) || (clientId !== undefined && entry.clientId !== clientId)) {
+      return { active: false };
+    }
+    return {
+      active: true,
+      client_id: entry.clientId,
+      scope: entry.scopes.join(' '),
+      token_type: 'Bearer',
+      token_use: entry === refresh ? 'refresh_token' : 'access_token',
+      iat: entry.issuedAt,
+      exp: entry.expiresAt,
+    };
+  }
+
+  private liveTokens(): Array<[OAuthTokenSummary['type'], StoredToken]> {
+    const now = Math.floor(Date.now() / 1000);
+    const live: Array<[OAuthTokenSummary['type'], StoredToken]> = [];
+    for (const token of Object.values(this.tokens)) {
+      if (token.expiresAt > now) live.push(['access_token', token]);
+    }
+    for (const token of Object.values(this.refreshTokens)) {
+      if (token.expiresAt > now && token.usedAt === undefined) live.push(['refresh_token', token]);
+    }
+    return live;
   }
 
   private sweepExpired(): void {
@@ -0,0 +1,149 @@
+import { Router, Request, Response } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { DraftStore } from '../services/drafts.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Local page on which a person approves or rejects the drafts that write
+ * tools create in approval mode. Every request must carry the review token
+ * (printed in the server log as part of the page URL), so neither the agent
+ * nor other local processes can approve drafts through it.
+ */
+export function createDraftReviewRouter(drafts: DraftStore, token: string): Router {
+  const router = Router();
+
+  const authorized = (req: Request, res: Response): boolean => {
+    const given = Buffer.from(String(req.query.token ?? req.body?.token ?? ''));
+    const expected = Buffer.from(token);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      res.status(403).send('Missing or wrong review token. Open the draft review URL from the server log.');
+      return false;
+    }
+    return true;
+  };
+
+  router.get('/', (req: Request, res: Response) => {
+    if (!authorized(req, res)) return;
+    res.type('html').send(REVIEW_PAGE_HTML);
+  });
+
+  router.get('/list', (req: Request, res: Response) => {
+    if (!authorized(req, res)) return;
+    res.json({
+      pending: drafts.list('pending'),
+      decided: drafts
+        .list()
+        .filter((draft) => draft.status !== 'pending')
+        .sort((a, b) => (b.decidedAt ?? 0) - (a.decidedAt ?? 0))
+        .slice(0, 20),
+    });
+  });
+
+  router.post('/:id/:decision', async (req: Request, res: Response) => {
+    if (!authorized(req, res)) return;
+    if (req.params.decision !== 'approve' && req.params.decision !== 'reject') {
+      res.status(404).json({ error: 'Unknown decision; use approve or reject.' });
+      return;
+    }
+    const id = String(req.params.id);
+    const note = typeof req.body?.note === 'string' ? req.body.note.slice(0, 500) : undefined;
+    try {
+      const draft =
+        req.params.decision === 'approve'
+          ? (await drafts.approve(id, 'web', note)).draft
+          : drafts.reject(id, 'web', note);
+      res.json({ draft });
+    } catch (error) {
+      log.warn(`Failed to ${req.params.decision} draft ${id}:`, error);
+      res.status(409).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return router;
+}
+
+const REVIEW_PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>WhatsApp drafts</title>
+<style>
+  :root { color-scheme: light dark; }
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 48rem; padding: 1.5rem; background: #f5f5f5; color: #1a1a1a; }
+  @media (prefers-color-scheme: dark) { body { background: #191919; color: #eee; } }
+  h1 { font-size: 1.3rem; }
+  h2 { font-size: 1rem; margin-top: 2rem; opacity: .8; }
+  .draft { background: #fff; border-radius: 10px; padding: 1rem; margin: .8rem 0; box-shadow: 0 1px 6px rgba(0,0,0,.1); }
+  @media (prefers-color-scheme: dark) { .draft { background: #262626; } }
+  .summary { font-weight: 600; word-break: break-word; }
+  .meta { font-size: .8rem; opacity: .7; margin: .3rem 0; }
+  pre { font-size: .8rem; white-space: pre-wrap; word-break: break-word; background: #8881; padding: .5rem; border-radius: 6px; max-height: 14rem; overflow: auto; }
+  .actions { display: flex; gap: .5rem; }
+  input { flex: 1; padding: .45rem .6rem; border-radius: 6px; border: 1px solid #8884; background: transparent; color: inherit; }
+  button { padding: .45rem .9rem; border-radius: 6px; border: none; cursor: pointer; color: #fff; font-weight: 600; }
+  .approve { background: #25d366; }
+  .reject { background: #d33; }
+  .status-approved { color: #25d366; } .status-rejected, .status-failed { color: #d33; }
+  .empty { opacity: .7; }
+</style>
+</head>
+<body>
+<h1>WhatsApp drafts awaiting approval</h1>
+<div id="pending"><p class="empty">Loading&hellip;</p></div>
+<h2>Recent decisions</h2>
+<div id="decided"></div>
+<script>
+  const token = new URLSearchParams(location.search).get('token');
+  const esc = (s) => String(s ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+  const when = (seconds) => new Date(seconds * 1000).toLocaleString();
+
+  function render(list) {
+    const pending = document.getElementById('pending');
+    pending.innerHTML = list.pending.length ? '' : '<p class="empty">Nothing to review.</p>';
+    for (const d of list.pending) {
+      const el = document.createElement('div');
+      el.className = 'draft';
+      el.innerHTML = '<div class="summary">' + esc(d.summary) + '</div>'
+        + '<div class="meta">' + esc(d.tool) + ' &middot; ' + when(d.createdAt) + '</div>'
+        + '<pre>' + esc(JSON.stringify(d.args, null, 2)) + '</pre>'
+        + '<div class="actions"><input placeholder="Note (optional)">'
+        + '<button class="approve">Approve</button><button class="reject">Reject</button></div>';
+      const note = el.querySelector('input');
+      el.querySelector('.approve').onclick = () => decide(d.id, 'approve', note.value);
+      el.querySelector('.reject').onclick = () => decide(d.id, 'reject', note.value);
+      pending.appendChild(el);
+    }
+    document.getElementById('decided').innerHTML = list.decided.map((d) =>
+      '<div class="draft"><div class="summary">' + esc(d.summary) + '</div>'
+      + '<div class="meta"><span class="status-' + esc(d.status) + '">' + esc(d.status) + '</span> via ' + esc(d.decidedVia)
+      + ' &middot; ' + when(d.decidedAt) + (d.note ? ' &middot; ' + esc(d.note) : '') + '</div>'
+      + (d.result ? '<pre>' + esc(d.result) + '</pre>' : '') + '</div>').join('')
+      || '<p class="empty">None yet.</p>';
+  }
+
+  async function refresh() {
+    // Don't re-render while a note is being typed
+    if (document.activeElement && document.activeElement.tagName === 'INPUT') return;
+    try {
+      const res = await fetch('/drafts/list?token=' + encodeURIComponent(token));
+      if (res.ok) render(await res.json());
+    } catch (e) { /* transient network error; keep polling */ }
+  }
+
+  async function decide(id, decision, note) {
+    const res = await fetch('/drafts/' + encodeURIComponent(id) + '/' + decision, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, note }),
+    });
+    if (!res.ok) alert((await res.json()).error || 'Failed.');
+    document.activeElement?.blur();
+    refresh();
+  }
+
+  refresh();
+  setInterval(refresh, 3000);
+</script>
+</body>
+</html>`;
@@ -0,0 +1,35 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+/** OAuth scopes a client can request, with the description shown for consent. */
+export const SCOPES = {
+  'messages:read': 'Read chats, contacts, groups and messages, and receive new messages',
+  'messages:send': 'Send, react to, edit, delete, forward and schedule messages',
+  'media:read': 'Download photos, videos, voice notes and documents',
+  'groups:admin': 'Create, join and leave groups, and manage their members and settings',
+  'session:admin': 'Link a new WhatsApp session (QR code, pairing code) and log out',
+} as const;
+
+export type Scope = keyof typeof SCOPES;
+
+export const ALL_SCOPES = Object.keys(SCOPES) as Scope[];
+
+export const isScope = (value: string): value is Scope => Object.hasOwn(SCOPES, value);
+
+/** Scopes granted for an authorization request; requesting none grants all, as before scopes existed. */
+export const grantedScopes = (requested: string[] | undefined): Scope[] =>
+  requested?.length ? requested.filter(isScope) : [...ALL_SCOPES];
+
+/**
+ * Whether a request may use `scope`. Requests without auth info (stdio, or
+ * HTTP without MCP_OAUTH) are not limited by scopes.
+ */
+export function hasScope(authInfo: AuthInfo | undefined, scope: Scope): boolean {
+  return !authInfo || authInfo.scopes.includes(scope);
+}
+
+/** Throw unless the request may use `scope`, e.g. before serving a resource. */
+export function requireScope(authInfo: AuthInfo | undefined, scope: Scope): void {
+  if (!hasScope(authInfo, scope)) {
+    throw new Error(`Insufficient scope: this OAuth client was not granted "${scope}".`);
+  }
+}
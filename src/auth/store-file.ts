@@ -0,0 +1,110 @@
+import fs from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+
+const CIPHER = 'aes-256-gcm';
+
+/** On-disk form of an encrypted store: the JSON state, sealed with a key derived from the secret. */
+interface EncryptedEnvelope {
+  encrypted: typeof CIPHER;
+  kdf: 'scrypt';
+  salt: string; // base64
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** The store file exists but cannot be used; the server must not silently start over. */
+export class OAuthStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthStoreError';
+  }
+}
+
+/**
+ * The secret that encrypts the OAuth store at rest: MCP_OAUTH_STORE_KEY, or
+ * the contents of the file named by MCP_OAUTH_STORE_KEY_FILE. Null keeps the
+ * store in plain JSON.
+ */
+export function oauthStoreKeyFromEnv(): string | null {
+  if (process.env.MCP_OAUTH_STORE_KEY) return process.env.MCP_OAUTH_STORE_KEY;
+  const keyFile = process.env.MCP_OAUTH_STORE_KEY_FILE;
+  if (!keyFile) return null;
+  const secret = fs.readFileSync(keyFile, 'utf8').trim();
+  if (!secret) throw new OAuthStoreError(`MCP_OAUTH_STORE_KEY_FILE ${keyFile} is empty.`);
+  return secret;
+}
+
+/**
+ * JSON file that is replaced atomically (write to a temp file, then rename),
+ * so a crash mid-write leaves the previous version intact, and is optionally
+ * encrypted with AES-256-GCM. The key is derived once per salt with scrypt.
+ */
+export class OAuthStoreFile {
+  private derived: { salt: Buffer; key: Buffer } | null = null;
+
+  constructor(
+    readonly path: string,
+    private readonly secret: string | null = null,
+  ) {}
+
+  /** The stored state, or null when there is no file yet. Throws OAuthStoreError if it cannot be read. */
+  read(): unknown {
+    if (!fs.existsSync(this.path)) return null;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+    } catch (error) {
+      throw new OAuthStoreError(
+        `OAuth store ${this.path} is corrupt (${error instanceof Error ? error.message : String(error)}). ` +
+          'Restore it from a backup, or delete it to start over: every client then has to register and authorize again.',
+      );
+    }
+    if (!isEnvelope(parsed)) return parsed; // plain JSON, re-written encrypted on the next change if a key is set
+    if (!this.secret) {
+      throw new OAuthStoreError(
+        `OAuth store ${this.path} is encrypted; set MCP_OAUTH_STORE_KEY or MCP_OAUTH_STORE_KEY_FILE to the key it was written with.`,
+      );
+    }
+    try {
+      const decipher = createDecipheriv(CIPHER, this.keyFor(Buffer.from(parsed.salt, 'base64')), Buffer.from(parsed.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(parsed.tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(parsed.data, 'base64')), decipher.final()]);
+      return JSON.parse(plain.toString('utf8'));
+    } catch {
+      throw new OAuthStoreError(`OAuth store ${this.path} cannot be decrypted: wrong key, or the file is corrupt.`);
+    }
+  }
+
+  write(state: unknown): void {
+    let content = JSON.stringify(state, null, 2);
+    if (this.secret) {
+      const salt = this.derived?.salt ?? randomBytes(16);
+      const iv = randomBytes(12);
+      const cipher = createCipheriv(CIPHER, this.keyFor(salt), iv);
+      const data = Buffer.concat([cipher.update(content, 'utf8'), cipher.final()]);
+      const envelope: EncryptedEnvelope = {
+        encrypted: CIPHER,
+        kdf: 'scrypt',
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+      content = JSON.stringify(envelope, null, 2);
+    }
+    const tmpPath = `${this.path}.tmp`;
+    fs.writeFileSync(tmpPath, content, { mode: 0o600 });
+    fs.renameSync(tmpPath, this.path);
+  }
+
+  private keyFor(salt: Buffer): Buffer {
+    if (!this.derived || !this.derived.salt.equals(salt)) {
+      this.derived = { salt, key: scryptSync(this.secret!, salt, 32) };
+    }
+    return this.derived.key;
+  }
+}
+
+const isEnvelope = (value: unknown): value is EncryptedEnvelope =>
+  typeof value === 'object' && value !== null && (value as { encrypted?: unknown }).encrypted === CIPHER;
@@ -0,0 +1,175 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ListResourcesResult,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { MessageEvent, WhatsAppService } from '../services/whatsapp.js';
+import { AccessPolicy, chatIdOfMessageId } from '../services/policy.js';
+import { hasScope, requireScope } from '../auth/scopes.js';
+import { log } from '../utils/logger.js';
+
+const CHATS_URI = 'whatsapp://chats';
+const chatUri = (jid: string): string => `whatsapp://chat/${jid}`;
+const chatMessagesUri = (jid: string): string => `whatsapp://chat/${jid}/messages`;
+
+// How many chats resources/list enumerates, and how many messages a
+// chat-messages resource holds (the list_messages tool pages further back)
+const LISTED_CHATS = 50;
+const RESOURCE_MESSAGES = 50;
+
+/** Template variables arrive as string | string[]; JIDs may be percent-encoded by clients. */
+const variable = (value: string | string[]): string => decodeURIComponent(Array.isArray(value) ? value[0] : value);
+
+const json = (uri: URL, data: unknown): ReadResourceResult => ({
+  contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+});
+
+/**
+ * Expose chats, conversations and media as MCP resources, so clients can
+ * attach a conversation as context and subscribe to it. Backed by the same
+ * SimpleChat / SimpleMessage mappers as the tools. Subscribed URIs receive
+ * notifications/resources/updated whenever a message in their chat arrives,
+ * changes or is acknowledged. With an access policy, only chats it lets
+ * tools read are listed and readable. `whatsappService` is looked up on
+ * every read (it may forward to the current account), and listened to
+ * while the session has subscriptions. OAuth clients need the messages:read
+ * scope (media:read for media) like the matching tools.
+ */
+export function registerWhatsAppResources(
+  server: McpServer,
+  whatsappService: WhatsAppService,
+  policy: AccessPolicy | null = null,
+): void {
+  log.info('Registering resources...');
+
+  const readableChats = async (includeLastMessage: boolean) => {
+    const chats = await whatsappService.listChats(LISTED_CHATS, includeLastMessage);
+    return policy ? policy.filterReadable(chats, (chat) => chat.id) : chats;
+  };
+  const checkRead = async (jid: string | null): Promise<void> => {
+    if (!policy) return;
+    if (jid === null) {
+      if (policy.restricts('read')) throw new Error('Blocked by policy: cannot tell which chat this message belongs to.');
+      return;
+    }
+    await policy.check('read', jid);
+  };
+
+  const listChatResources = async (
+    toUri: (jid: string) => string,
+    suffix: string,
+    authInfo: AuthInfo | undefined,
+  ): Promise<ListResourcesResult> => {
+    if (!hasScope(authInfo, 'messages:read')) return { resources: [] };
+    const chats = await readableChats(false);
+    return {
+      resources: chats.map((chat) => ({
+        uri: toUri(chat.id),
+        name: `${chat.name || chat.id}${suffix}`,
+        mimeType: 'application/json',
+      })),
+    };
+  };
+
+  server.resource(
+    'chats',
+    CHATS_URI,
+    { description: 'WhatsApp chats sorted by recent activity, with their last message', mimeType: 'application/json' },
+    async (uri, { authInfo }): Promise<ReadResourceResult> => {
+      requireScope(authInfo, 'messages:read');
+      return json(uri, await readableChats(true));
+    },
+  );
+
+  server.resource(
+    'chat',
+    new ResourceTemplate('whatsapp://chat/{jid}', {
+      list: ({ authInfo }) => listChatResources(chatUri, '', authInfo),
+    }),
+    { description: 'Metadata of a WhatsApp chat', mimeType: 'application/json' },
+    async (uri, { jid }, { authInfo }): Promise<ReadResourceResult> => {
+      requireScope(authInfo, 'messages:read');
+      await checkRead(variable(jid));
+      const chat = await whatsappService.getChatById(variable(jid));
+      if (!chat) throw new Error(`Chat not found: ${variable(jid)}`);
+      return json(uri, chat);
+    },
+  );
+
+  server.resource(
+    'chat-messages',
+    new ResourceTemplate('whatsapp://chat/{jid}/messages', {
+      list: ({ authInfo }) => listChatResources(chatMessagesUri, ' (messages)', authInfo),
+    }),
+    {
+      description: `The ${RESOURCE_MESSAGES} most recent messages of a WhatsApp chat, oldest first`,
+      mimeType: 'application/json',
+    },
+    async (uri, { jid }, { authInfo }): Promise<ReadResourceResult> => {
+      requireScope(authInfo, 'messages:read');
+      await checkRead(variable(jid));
+      const page = await whatsappService.getMessages(variable(jid), { limit: RESOURCE_MESSAGES });
+      return json(uri, page.messages);
+    },
+  );
+
+  server.resource(
+    'media',
+    new ResourceTemplate('whatsapp://media/{messageId}', { list: undefined }),
+    { description: 'The media attachment of a WhatsApp message (image, audio, video, document)' },
+    async (uri, { messageId }, { authInfo }): Promise<ReadResourceResult> => {
+      requireScope(authInfo, 'media:read');
+      await checkRead(chatIdOfMessageId(variable(messageId)));
+      const media = await whatsappService.downloadMedia(variable(messageId));
+      if (!media) throw new Error(`Media not found or failed to download for message: ${variable(messageId)}`);
+      return { contents: [{ uri: uri.href, mimeType: media.mimetype, blob: media.data }] };
+    },
+  );
+
+  // --- subscriptions ---------------------------------------------------
+
+  const subscribed = new Set<string>();
+  // Listens only while something is subscribed: a listener keeps an OAuth
+  // principal's account from being closed as idle
+  let stopListening: (() => void) | null = null;
+  const notifySubscribers = (event: MessageEvent): void => {
+    if (!server.isConnected()) return;
+    for (const uri of [CHATS_URI, chatUri(event.chatId), chatMessagesUri(event.chatId)]) {
+      if (!subscribed.has(uri)) continue;
+      server.server
+        .sendResourceUpdated({ uri })
+        .catch((error) => log.debug(`Failed to send resource update for ${uri}:`, error));
+    }
+  };
+  const unsubscribeAll = (): void => {
+    stopListening?.();
+    stopListening = null;
+    subscribed.clear();
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, { authInfo }) => {
+    requireScope(authInfo, 'messages:read');
+    subscribed.add(request.params.uri);
+    stopListening ??= whatsappService.onMessageEvent(notifySubscribers);
+    log.info(`Resource subscribed: ${request.params.uri}`);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    if (subscribed.size === 0) unsubscribeAll();
+    return {};
+  });
+
+  // Stop listening once the session's transport is gone
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribeAll();
+    previousOnClose?.();
+  };
+
+  log.info('Resources registered.');
+}
@@ -7,12 +7,25 @@ import {
   getOAuthProtectedResourceMetadataUrl,
 } from '@modelcontextprotocol/sdk/server/auth/router.js';
 import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
-import { randomUUID } from 'node:crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { randomBytes, randomUUID } from 'node:crypto';
 import express, { Request, Response, RequestHandler } from 'express';
 import path from 'path';
 import { WhatsAppOAuthProvider } from './auth/oauth-provider.js';
 import { createLinkRouter } from './auth/link-page.js';
-import { WhatsAppService } from './services/whatsapp.js';
+import { createIntrospectionRouter, createOAuthAdminRouter } from './auth/admin.js';
+import { oauthStoreKeyFromEnv } from './auth/store-file.js';
+import { createDraftReviewRouter } from './auth/review-page.js';
+import {
+  AccountLimitError,
+  AccountRegistry,
+  accountNamesFromEnv,
+  createAccount,
+  principalAccountLimitsFromEnv,
+  PrincipalAccounts,
+} from './services/accounts.js';
+import { DraftStore } from './services/drafts.js';
+import { AccessPolicy, loadPolicy } from './services/policy.js';
 import { log } from './utils/logger.js';
 import { BrowserProcessManager } from './utils/browser-process-manager.js';
 // Import tool registration functions
@@ -21,6 +34,23 @@ import { registerChatTools } from './tools/chats.js';
 import { registerMessageTools } from './tools/messages.js';
 import { registerMediaTools } from './tools/media.js';
 import { registerAuthTools } from './tools/auth.js';
+import { registerNotificationTools } from './tools/notifications.js';
+import { registerGroupTools } from './tools/groups.js';
+import { registerSchedulerTools } from './tools/scheduler.js';
+import { registerApprovalTools } from './tools/approvals.js';
+import { registerPolicyGuard } from './tools/guard.js';
+import { READ_ONLY_TOOLS, registerOnly } from './tools/hooks.js';
+import { registerAccountBinding, registerAccountParam, registerAccountTools } from './tools/accounts.js';
+import { registerScopeGuard } from './tools/scopes.js';
+import { ALL_SCOPES } from './auth/scopes.js';
+import { registerWhatsAppResources } from './resources/whatsapp.js';
+
+// Only read tools are registered; nothing can send, change or delete
+const READ_ONLY = process.env.WHATSAPP_READ_ONLY === 'true';
+
+/** The OAuth principal's own account that a request's token acts on, if any. */
+const principalAccount = (authInfo?: AuthInfo): string | undefined =>
+  typeof authInfo?.extra?.account === 'string' ? authInfo.extra.account : undefined;
 
 const SERVER_INFO: Implementation = {
   name: 'mcp-whatsapp-web',
@@ -30,24 +60,49 @@ const SERVER_INFO: Implementation = {
 export type TransportType = 'stdio' | 'http';
 
 export class WhatsAppMcpServer {
-  private readonly whatsapp: WhatsAppService;
+  private readonly accounts: AccountRegistry;
+  private readonly drafts: DraftStore;
+  private readonly policy: AccessPolicy | null;
+  // Each OAuth client's own account (MCP_OAUTH_PER_PRINCIPAL), opened on demand
+  private principals: PrincipalAccounts | null = null;
   private browserProcessManager: BrowserProcessManager;
   // One transport (each with its own McpServer facade) per Streamable HTTP session.
-  // They all share the single WhatsAppService instance and thus the same WhatsApp session.
+  // They share the configured accounts, unless bound to a principal's account.
   private httpTransports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+  private httpSessionAccounts: { [sessionId: string]: string | undefined } = {};
   private httpServer: ReturnType<express.Express['listen']> | null = null;
+  // Whether the draft review page is served (it lives on the HTTP port)
+  private reviewPage = false;
 
   constructor() {
     this.browserProcessManager = new BrowserProcessManager();
-    this.whatsapp = new WhatsAppService();
+    // Each account has its own session, browser and state files. Only the
+    // first one pairs with WHATSAPP_PAIRING_PHONE_NUMBER at startup.
+    this.accounts = new AccountRegistry(
+      accountNamesFromEnv().map((name, index) => createAccount(name, index === 0 ? {} : { pairingPhoneNumber: null })),
+    );
+    // Drafts record their account in their arguments, so one store serves all
+    const stateDir = this.accounts.primary.whatsapp.getSessionDataPath();
+    this.drafts = new DraftStore(path.join(stateDir, 'drafts.json'), path.join(stateDir, 'draft-decisions.jsonl'));
+    this.policy = loadPolicy(process.env.WHATSAPP_POLICY_FILE, (jid) =>
+      this.accounts.current().whatsapp.isSavedContact(jid),
+    );
   }
 
   /**
-   * Build an McpServer with all tools registered. Stdio uses a single
+   * Build an McpServer with all tools and resources registered. Stdio uses a single
    * instance; Streamable HTTP creates one per session (an McpServer can only
-   * be bound to one transport at a time).
+   * be bound to one transport at a time). With `requireApproval`, write tools
+   * create drafts instead of acting (WHATSAPP_APPROVAL_MODE, or per HTTP session).
+   * `authInfo` is the OAuth token an HTTP session was initialized with; a
+   * token of a principal's account binds every tool and resource to it.
+   * The one instance created with `executors` runs approved drafts.
    */
-  private createServer(): McpServer {
+  private createServer(
+    requireApproval = process.env.WHATSAPP_APPROVAL_MODE === 'true',
+    authInfo?: AuthInfo,
+    executors = false,
+  ): McpServer {
     const server = new McpServer(SERVER_INFO, {
       capabilities: {
         logging: {},
@@ -55,11 +110,37 @@ export class WhatsAppMcpServer {
       instructions: 'This server provides tools to interact with WhatsApp.',
     });
 
-    registerAuthTools(server, this.whatsapp);
-    registerContactTools(server, this.whatsapp);
-    registerChatTools(server, this.whatsapp);
-    registerMessageTools(server, this.whatsapp);
-    registerMediaTools(server, this.whatsapp);
+    const account = principalAccount(authInfo);
+    // These first, so they can wrap the tools registered after them; the
+    // guards run first, so refused calls never become drafts
+    registerApprovalTools(server, this.drafts, {
+      requireApproval,
+      account,
+      reviewPage: this.reviewPage,
+      executors,
+      policy: this.policy,
+    });
+    if (this.policy) registerPolicyGuard(server, this.policy, this.accounts.currentService());
+    registerScopeGuard(server);
+    if (account) registerAccountBinding(server, this.accounts, account);
+    else registerAccountParam(server, this.accounts);
+    // Last, so omitted tools never reach the hooks above
+    if (READ_ONLY) registerOnly(server, READ_ONLY_TOOLS);
+    // The tools act on the account their call names, through these
+    const whatsapp = this.accounts.currentService();
+    // A principal sees its own account only
+    if (!account) registerAccountTools(server, this.accounts);
+    registerAuthTools(server, whatsapp, READ_ONLY);
+    registerContactTools(server, whatsapp);
+    registerChatTools(server, whatsapp);
+    registerMessageTools(server, whatsapp, this.policy);
+    registerMediaTools(server, whatsapp);
+    registerGroupTools(server, whatsapp);
+    registerSchedulerTools(server, this.accounts.currentScheduler());
+    registerNotificationTools(server, whatsapp, this.policy, authInfo);
+    // Resources have no account parameter; they show the default or the principal's account, which
+    // `whatsapp` resolves on every request, so they follow a principal's account when it reopens
+    registerWhatsAppResources(server, whatsapp, this.policy);
 
     server.tool('ping', async () => ({
       content: [{ type: 'text', text: 'pong' }],
@@ -73,10 +154,14 @@ export class WhatsAppMcpServer {
     // The WhatsApp client (browser launch, QR/session restore) initializes in
     // the background; tools report a clear error until it is ready, and
     // get_qr_code becomes usable as soon as a QR code is emitted.
+    const extraHttpPort = transportType === 'stdio' ? Number(process.env.MCP_HTTP_PORT || 0) : 0;
+    this.reviewPage = !READ_ONLY && (transportType !== 'stdio' || extraHttpPort > 0);
+    // Registered once up front, so drafts left from a previous run can be
+    // approved before any MCP session exists; stdio reuses this instance
+    const primary = this.createServer(undefined, undefined, true);
     if (transportType === 'stdio') {
-      await this.startStdioTransport();
+      await this.startStdioTransport(primary);
       // Optionally expose the Streamable HTTP endpoint alongside stdio
-      const extraHttpPort = Number(process.env.MCP_HTTP_PORT || 0);
       if (extraHttpPort > 0) {
         await this.startHttpTransport(extraHttpPort);
       }
@@ -84,33 +169,50 @@ export class WhatsAppMcpServer {
       await this.startHttpTransport(Number(process.env.MCP_HTTP_PORT || 3001));
     }
 
+    // Due jobs wait until the WhatsApp client below is ready. Read-only
+    // mode leaves them pending instead of sending them.
+    if (!READ_ONLY) {
+      for (const account of this.accounts.all()) account.scheduler.start();
+    }
+
     log.info('Initializing WhatsApp client in the background...');
     void (async () => {
       try {
         // Clean up any orphaned browser processes before starting
         await this.browserProcessManager.cleanupOrphanedProcesses();
-
-        // Initialize the WhatsApp client
-        await this.whatsapp.initialize();
-        log.info('WhatsApp client initialized successfully.');
       } catch (error) {
-        // initialize() already logged the full error; one line is enough here
-        log.error(
-          'Failed to initialize WhatsApp client. The MCP server stays up; ' +
-            'check_auth_status and get_qr_code can be used once the issue is resolved. ' +
-            (error instanceof Error ? error.message : String(error)),
-        );
+        log.warn('Error cleaning up orphaned browser processes:', error);
+      }
+      // One browser at a time; an account that fails does not hold up the others
+      for (const account of this.accounts.all()) {
+        const label = this.accounts.names.length > 1 ? ` for account ${account.name}` : '';
+        try {
+          await account.whatsapp.initialize();
+          log.info(`WhatsApp client initialized successfully${label}.`);
+        } catch (error) {
+          // initialize() already logged the full error; one line is enough here
+          log.error(
+            `Failed to initialize WhatsApp client${label}. The MCP server stays up; ` +
+              'check_auth_status and get_qr_code can be used once the issue is resolved. ' +
+              (error instanceof Error ? error.message : String(error)),
+          );
+        }
       }
     })();
   }
 
-  private async startStdioTransport() {
+  private async startStdioTransport(server: McpServer) {
     log.info('Starting MCP server with stdio transport...');
+    if (process.env.WHATSAPP_APPROVAL_MODE === 'true' && !this.reviewPage) {
+      log.warn(
+        'Approval mode without the draft review page: write tools work only in clients that support approval ' +
+          'prompts (elicitation) and are refused otherwise. Set MCP_HTTP_PORT to serve the review page.',
+      );
+    }
     const stdioTransport = new StdioServerTransport();
     stdioTransport.onerror = (error) => {
       log.error('StdioTransport Error:', error);
     };
-    const server = this.createServer();
     await server.connect(stdioTransport);
     // When the MCP client disconnects (stdin closed), nothing can ever reach
     // this process over stdio again - shut down cleanly so the browser is
@@ -148,13 +250,30 @@ export class WhatsAppMcpServer {
     if (process.env.MCP_OAUTH === 'true') {
       const issuerUrl = new URL(`http://${host === '0.0.0.0' ? '127.0.0.1' : host}:${port}`);
       const mcpUrl = new URL('/mcp', issuerUrl);
+      // The OAuth link page links the default account
+      const whatsapp = this.accounts.primary.whatsapp;
+      // Or each client links its own, e.g. when hosting the server for several people
+      if (process.env.MCP_OAUTH_PER_PRINCIPAL === 'true') {
+        const limits = principalAccountLimitsFromEnv();
+        this.principals = new PrincipalAccounts(this.accounts, { ...limits, startScheduler: !READ_ONLY });
+        this.principals.startEviction();
+        log.info(
+          `Per-principal WhatsApp accounts enabled: at most ${limits.maxOpen} open at once, ` +
+            `idle accounts close after ${limits.idleMs / 60_000} min.`,
+        );
+      }
       const provider = new WhatsAppOAuthProvider(
-        this.whatsapp,
+        whatsapp,
         path.join(process.cwd(), '.oauth-store.json'),
+        oauthStoreKeyFromEnv(),
+        this.principals,
       );
       // Unlinking WhatsApp (logout / auth failure) revokes all tokens, so
-      // clients get a 401 and automatically re-run the browser flow.
-      this.whatsapp.onSessionInvalidated(() => provider.revokeAllTokens());
+      // clients get a 401 and automatically re-run the browser flow. The
+      // tokens of principals' own accounts stay: their sessions are unaffected.
+      whatsapp.onSessionInvalidated(() =>
+        this.principals ? provider.revokeServerTokens() : provider.revokeAllTokens(),
+      );
 
       app.use(
         mcpAuthRouter({
@@ -162,9 +281,20 @@ export class WhatsAppMcpServer {
           issuerUrl,
           resourceServerUrl: mcpUrl,
           resourceName: 'WhatsApp MCP Server',
+          scopesSupported: ALL_SCOPES,
         }),
       );
-      app.use('/oauth/link', createLinkRouter(provider, this.whatsapp));
+      app.use('/oauth/link', createLinkRouter(provider));
+      // Client management and introspection, for the person running the server
+      const adminToken = process.env.MCP_OAUTH_ADMIN_TOKEN || randomBytes(24).toString('base64url');
+      app.use('/oauth/admin', createOAuthAdminRouter(provider, adminToken));
+      app.use('/oauth/introspect', createIntrospectionRouter(provider, adminToken));
+      // A configured token is never written to the log
+      log.info(
+        process.env.MCP_OAUTH_ADMIN_TOKEN
+          ? `OAuth admin API: ${issuerUrl.origin}/oauth/admin/clients (token from MCP_OAUTH_ADMIN_TOKEN)`
+          : `OAuth admin API: ${issuerUrl.origin}/oauth/admin/clients?token=${adminToken}`,
+      );
       guards.push(
         requireBearerAuth({
           verifier: provider,
@@ -174,29 +304,65 @@ export class WhatsAppMcpServer {
       log.info('OAuth authorization enabled: /mcp requires a bearer token.');
     }
 
+    // Draft review page for approval mode. It has its own secret token
+    // rather than OAuth: a person approves here, not the MCP client.
+    if (!READ_ONLY) {
+      const reviewToken = process.env.WHATSAPP_APPROVAL_TOKEN || randomBytes(24).toString('base64url');
+      app.use('/drafts', createDraftReviewRouter(this.drafts, reviewToken));
+      const reviewUrl = `http://${host === '0.0.0.0' ? '127.0.0.1' : host}:${port}/drafts`;
+      // A configured token is never written to the log
+      log.info(
+        process.env.WHATSAPP_APPROVAL_TOKEN
+          ? `Draft review page: ${reviewUrl} (token from WHATSAPP_APPROVAL_TOKEN)`
+          : `Draft review page: ${reviewUrl}?token=${reviewToken}`,
+      );
+    }
+
+    // A session stays with the account of the token that opened it
+    const wrongAccount = (req: Request, res: Response, sessionId: string): boolean => {
+      if (this.httpSessionAccounts[sessionId] === principalAccount(req.auth)) return false;
+      res.status(403).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Forbidden: this session belongs to another WhatsApp account' },
+        id: null,
+      });
+      return true;
+    };
+
     app.post('/mcp', ...guards, async (req: Request, res: Response) => {
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const account = principalAccount(req.auth);
 
       try {
         let transport: StreamableHTTPServerTransport;
 
         if (sessionId && this.httpTransports[sessionId]) {
+          if (wrongAccount(req, res, sessionId)) return;
           transport = this.httpTransports[sessionId];
         } else if (!sessionId && isInitializeRequest(req.body)) {
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => randomUUID(),
             onsessioninitialized: (sid: string) => {
-              log.info(`Streamable HTTP session initialized: ${sid}`);
+              log.info(`Streamable HTTP session initialized: ${sid}${account ? ` (account ${account})` : ''}`);
               this.httpTransports[sid] = transport;
+              this.httpSessionAccounts[sid] = account;
             },
           });
           transport.onclose = () => {
             if (transport.sessionId && this.httpTransports[transport.sessionId]) {
               log.info(`Streamable HTTP session closed: ${transport.sessionId}`);
               delete this.httpTransports[transport.sessionId];
+              delete this.httpSessionAccounts[transport.sessionId];
             }
           };
-          await this.createServer().connect(transport);
+          // Clients can opt a single session into approval mode
+          const approvalHeader = String(req.headers['x-whatsapp-approval'] ?? '').toLowerCase();
+          await this.inAccount(account, () =>
+            this.createServer(
+              approvalHeader === 'required' || process.env.WHATSAPP_APPROVAL_MODE === 'true',
+              req.auth,
+            ).connect(transport),
+          );
         } else {
           res.status(400).json({
             jsonrpc: '2.0',
@@ -206,8 +372,12 @@ export class WhatsAppMcpServer {
           return;
         }
 
-        await transport.handleRequest(req, res, req.body);
+        await this.inAccount(account, () => transport.handleRequest(req, res, req.body));
       } catch (error) {
+        if (error instanceof AccountLimitError && !res.headersSent) {
+          res.status(503).json({ jsonrpc: '2.0', error: { code: -32000, message: error.message }, id: null });
+          return;
+        }
         log.error('Error handling MCP HTTP request:', error);
         if (!res.headersSent) {
           res.status(500).json({
@@ -227,9 +397,14 @@ export class WhatsAppMcpServer {
         res.status(400).send('Invalid or missing mcp-session-id header');
         return;
       }
+      if (wrongAccount(req, res, sessionId!)) return;
       try {
-        await transport.handleRequest(req, res);
+        await this.inAccount(principalAccount(req.auth), () => transport.handleRequest(req, res));
       } catch (error) {
+        if (error instanceof AccountLimitError && !res.headersSent) {
+          res.status(503).send(error.message);
+          return;
+        }
         log.error(`Error handling ${req.method} /mcp for session ${sessionId}:`, error);
         if (!res.headersSent) {
           res.status(500).send('Internal server error');
@@ -251,6 +426,16 @@ export class WhatsAppMcpServer {
     });
   }
 
+  /**
+   * Run `fn` in a principal's account, which each request keeps open (or
+   * reopens after it was closed as idle), or in the default context.
+   */
+  private inAccount<T>(account: string | undefined, fn: () => T): T {
+    if (account === undefined) return fn();
+    this.principals?.get(account);
+    return this.accounts.run(account, fn);
+  }
+
   /**
    * Gracefully shutdown the server and clean up resources
    * @returns A promise that resolves when shutdown is complete
@@ -258,10 +443,13 @@ export class WhatsAppMcpServer {
   async shutdown(): Promise<void> {
     log.info('Shutting down WhatsApp MCP Server...');
 
+    for (const account of this.accounts.all()) account.scheduler.stop();
+
     try {
-      // First destroy the WhatsApp client to properly close the Puppeteer browser
-      // This will also unregister the browser PID
-      await this.whatsapp.destroy();
+      // First destroy the WhatsApp clients to properly close the Puppeteer browsers
+      // This will also unregister the browser PIDs
+      await Promise.all(this.accounts.all().map((account) => account.whatsapp.destroy()));
+      await this.principals?.closeAll();
 
       // Close all active Streamable HTTP sessions
       const sessionIds = Object.keys(this.httpTransports);
@@ -274,6 +462,7 @@ export class WhatsAppMcpServer {
             log.warn(`Error closing HTTP session ${sessionId}:`, error);
           }
           delete this.httpTransports[sessionId];
+          delete this.httpSessionAccounts[sessionId];
         }
       }
       if (this.httpServer) {
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { BrowserProcessManager } from '../utils/browser-process-manager.js';
+import { log } from '../utils/logger.js';
+import { MessageScheduler } from './scheduler.js';
+import { WhatsAppService, WhatsAppServiceDeps } from './whatsapp.js';
+
+/** The account that keeps the session directory of a single-account setup. */
+export const DEFAULT_ACCOUNT = 'default';
+
+/** Prefix of the accounts created for OAuth principals; configured names cannot use it. */
+export const PRINCIPAL_ACCOUNT_PREFIX = 'oauth-';
+
+// LocalAuth accepts only these characters in a clientId
+const ACCOUNT_NAME = /^[A-Za-z0-9_-]+$/;
+
+const DEFAULT_PRINCIPAL_IDLE_MINUTES = 30;
+const DEFAULT_MAX_PRINCIPAL_ACCOUNTS = 10;
+
+export const isPrincipalAccount = (name: string): boolean =>
+  name.startsWith(PRINCIPAL_ACCOUNT_PREFIX) && ACCOUNT_NAME.test(name);
+
+/** One linked WhatsApp number with its own session, browser and state files. */
+export interface Account {
+  name: string;
+  whatsapp: WhatsAppService;
+  scheduler: MessageScheduler;
+  browserProcessManager: BrowserProcessManager;
+}
+
+/**
+ * Parse WHATSAPP_ACCOUNTS, a comma-separated list of account names such as
+ * "personal,business". The first one is used when a tool call names none.
+ * The name "default" keeps the session directory of a single-account setup.
+ */
+export function accountNamesFromEnv(value = process.env.WHATSAPP_ACCOUNTS): string[] {
+  const names = (value ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) return [DEFAULT_ACCOUNT];
+  for (const name of names) {
+    if (!ACCOUNT_NAME.test(name)) {
+      throw new Error(`Invalid account name "${name}" in WHATSAPP_ACCOUNTS: use letters, digits, "_" and "-".`);
+    }
+    if (isPrincipalAccount(name)) {
+      throw new Error(`Invalid account name "${name}" in WHATSAPP_ACCOUNTS: "${PRINCIPAL_ACCOUNT_PREFIX}" is reserved.`);
+    }
+  }
+  if (new Set(names).size !== names.length) throw new Error('WHATSAPP_ACCOUNTS lists an account twice.');
+  return names;
+}
+
+/** Create an account's service, browser tracking and scheduler. */
+export function createAccount(name: string, deps: Partial<WhatsAppServiceDeps> = {}): Account {
+  const browserProcessManager = new BrowserProcessManager(undefined, name === DEFAULT_ACCOUNT ? undefined : name);
+  const whatsapp = new WhatsAppService({
+    browserProcessManager,
+    account: name === DEFAULT_ACCOUNT ? undefined : name,
+    ...deps,
+  });
+  const scheduler = new MessageScheduler({
+    filePath: path.join(whatsapp.getSessionDataPath(), 'scheduled-messages.json'),
+    sender: whatsapp,
+  });
+  return { name, whatsapp, scheduler, browserProcessManager };
+}
+
+/**
+ * The configured accounts, and which one the current tool call acts on.
+ * Tool modules are registered once against currentService() and
+ * currentScheduler(), which forward every call to the account selected
+ * with run() for the surrounding async context (the first one otherwise).
+ */
+export class AccountRegistry {
+  private readonly accounts: Map<string, Account>;
+  private readonly context = new AsyncLocalStorage<Account>();
+  // Looks up accounts that are not configured (those of OAuth principals)
+  private resolveOther: ((name: string) => Account | undefined) | null = null;
+
+  constructor(accounts: Account[]) {
+    if (accounts.length === 0) throw new Error('At least one account is required.');
+    this.accounts = new Map(accounts.map((account) => [account.name, account]));
+    if (accounts.length > 1) log.info(`WhatsApp accounts: ${this.names.join(', ')}`);
+  }
+
+  get names(): string[] {
+    return [...this.accounts.keys()];
+  }
+
+  /** The account used when a call names none. */
+  get primary(): Account {
+    return this.accounts.values().next().value!;
+  }
+
+  all(): Account[] {
+    return [...this.accounts.values()];
+  }
+
+  get(name: string): Account | undefined {
+    return this.accounts.get(name);
+  }
+
+  current(): Account {
+    return this.context.getStore() ?? this.primary;
+  }
+
+  /**
+   * Let run() select accounts outside the configured list. They are not
+   * part of names or all(), so tools never offer them as a choice.
+   */
+  resolveWith(resolve: (name: string) => Account | undefined): void {
+    this.resolveOther = resolve;
+  }
+
+  /** Run `fn` with `name` (the primary account if undefined) as the current account. */
+  run<T>(name: string | undefined, fn: () => T): T {
+    const account = name === undefined ? this.primary : (this.accounts.get(name) ?? this.resolveOther?.(name));
+    if (!account) throw new Error(`Unknown WhatsApp account "${name}". Configured: ${this.names.join(', ')}`);
+    return this.context.run(account, fn);
+  }
+
+  /** A WhatsAppService that forwards each call to the current account's service. */
+  currentService(): WhatsAppService {
+    return this.forwardTo(() => this.current().whatsapp);
+  }
+
+  /** A MessageScheduler that forwards each call to the current account's scheduler. */
+  currentScheduler(): MessageScheduler {
+    return this.forwardTo(() => this.current().scheduler);
+  }
+
+  private forwardTo<T extends object>(target: () => T): T {
+    return new Proxy({} as T, {
+      get: (_, property) => {
+        const instance = target();
+        const value = Reflect.get(instance, property);
+        return typeof value === 'function' ? value.bind(instance) : value;
+      },
+    });
+  }
+}
+
+/** Opening another principal account would exceed the limit of open accounts. */
+export class AccountLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountLimitError';
+  }
+}
+
+interface OpenPrincipalAccount {
+  account: Account;
+  lastUsed: number;
+  // No session directory existed when it was opened: nothing linked it yet
+  fresh: boolean;
+}
+
+export interface PrincipalAccountOptions {
+  /** Close accounts that were not used for this long. */
+  idleMs: number;
+  /** How many accounts may be open at once; each runs its own browser. */
+  maxOpen: number;
+  /** Start each account's scheduler (not in read-only mode). */
+  startScheduler: boolean;
+  /** Creates the account; createAccount by default. */
+  create?: (name: string) => Account;
+}
+
+/**
+ * Idle time and account limit for PrincipalAccounts, from
+ * MCP_OAUTH_ACCOUNT_IDLE_MINUTES (default 30) and MCP_OAUTH_MAX_ACCOUNTS
+ * (default 10).
+ */
+export function principalAccountLimitsFromEnv(env = process.env): Pick<PrincipalAccountOptions, 'idleMs' | 'maxOpen'> {
+  const minutes = Number(env.MCP_OAUTH_ACCOUNT_IDLE_MINUTES || DEFAULT_PRINCIPAL_IDLE_MINUTES);
+  if (!Number.isFinite(minutes) || minutes < 1) {
+    throw new Error('MCP_OAUTH_ACCOUNT_IDLE_MINUTES must be at least 1.');
+  }
+  const maxOpen = Number(env.MCP_OAUTH_MAX_ACCOUNTS || DEFAULT_MAX_PRINCIPAL_ACCOUNTS);
+  if (!Number.isInteger(maxOpen) || maxOpen < 1) {
+    throw new Error('MCP_OAUTH_MAX_ACCOUNTS must be a whole number of at least 1.');
+  }
+  return { idleMs: minutes * 60_000, maxOpen };
+}
+
+/**
+ * The WhatsApp accounts of OAuth principals (MCP_OAUTH_PER_PRINCIPAL): each
+ * OAuth client links and uses its own number. An account is opened (browser
+ * started, session restored) when first used and closed once it was idle
+ * for `idleMs` without requests or subscriptions; its session directory
+ * stays, so the next use reopens it as a new instance.
+ * Accounts closed before anything was linked leave no directory behind.
+ * At most `maxOpen` accounts are open at once.
+ */
+export class PrincipalAccounts {
+  private readonly open = new Map<string, OpenPrincipalAccount>();
+  private sessionInvalidatedListeners: Array<(name: string) => void> = [];
+  private evictionTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    registry: AccountRegistry,
+    private readonly options: PrincipalAccountOptions,
+  ) {
+    registry.resolveWith((name) => (isPrincipalAccount(name) ? this.get(name) : undefined));
+  }
+
+  /** A name for the account of a principal that has none yet. */
+  newName(): string {
+    return `${PRINCIPAL_ACCOUNT_PREFIX}${randomBytes(8).toString('hex')}`;
+  }
+
+  /**
+   * The account, opened and initializing in the background if it was not open. Counts as a use.
+   * @throws AccountLimitError if it is not open and `maxOpen` accounts are
+   */
+  get(name: string): Account {
+    const entry = this.open.get(name);
+    if (entry) {
+      entry.lastUsed = Date.now();
+      return entry.account;
+    }
+    if (this.open.size >= this.options.maxOpen) {
+      throw new AccountLimitError(
+        `All ${this.options.maxOpen} WhatsApp accounts this server may open (MCP_OAUTH_MAX_ACCOUNTS) are in use. ` +
+          'Try again once one has been idle long enough to close.',
+      );
+    }
+    const account = this.options.create?.(name) ?? createAccount(name, { pairingPhoneNumber: null });
+    const fresh = !fs.existsSync(account.whatsapp.getSessionDataPath());
+    this.open.set(name, { account, lastUsed: Date.now(), fresh });
+    account.whatsapp.onSessionInvalidated(() => {
+      for (const listener of this.sessionInvalidatedListeners) listener(name);
+    });
+    if (this.options.startScheduler) account.scheduler.start();
+    log.info(`Opening WhatsApp account ${name}...`);
+    account.whatsapp.initialize().catch((error) => {
+      log.error(`Failed to initialize WhatsApp client for account ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    return account;
+  }
+
+  /** Names of the accounts that are open right now. */
+  openNames(): string[] {
+    return [...this.open.keys()];
+  }
+
+  /** Called with the account's name when its WhatsApp session is logged out or fails authentication. */
+  onSessionInvalidated(listener: (name: string) => void): void {
+    this.sessionInvalidatedListeners.push(listener);
+  }
+
+  /**
+   * Close the accounts not used for longer than idleMs. Returns their names.
+   * An account whose events a session listens to (a subscription) is in use.
+   */
+  async evictIdle(now = Date.now()): Promise<string[]> {
+    const idle = [...this.open].filter(
+      ([, entry]) => now - entry.lastUsed > this.options.idleMs && !entry.account.whatsapp.hasMessageEventListeners(),
+    );
+    for (const [name] of idle) await this.close(name);
+    if (idle.length > 0) log.info(`Closed idle WhatsApp account(s): ${idle.map(([name]) => name).join(', ')}`);
+    return idle.map(([name]) => name);
+  }
+
+  /** Check for idle accounts periodically until closeAll(). */
+  startEviction(): void {
+    if (this.evictionTimer) return;
+    this.evictionTimer = setInterval(
+      () => void this.evictIdle().catch((error) => log.warn('Error closing idle WhatsApp accounts:', error)),
+      Math.min(this.options.idleMs, 60_000),
+    );
+    this.evictionTimer.unref();
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.evictionTimer) clearInterval(this.evictionTimer);
+    this.evictionTimer = null;
+    await Promise.all([...this.open.keys()].map((name) => this.close(name)));
+  }
+
+  private async close(name: string): Promise<void> {
+    const entry = this.open.get(name);
+    if (!entry) return;
+    this.open.delete(name);
+    const { whatsapp, scheduler } = entry.account;
+    const linked = whatsapp.isAuthenticated();
+    scheduler.stop();
+    await whatsapp.destroy();
+    if (entry.fresh && !linked) {
+      fs.rmSync(whatsapp.getSessionDataPath(), { recursive: true, force: true });
+    }
+  }
+}
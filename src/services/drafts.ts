@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'node:crypto';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { log } from '../utils/logger.js';
+
+export type DraftStatus = 'pending' | 'approved' | 'rejected' | 'failed';
+export type DecisionChannel = 'elicitation' | 'web';
+
+/** A write tool call held back until a human approves or rejects it. */
+export interface Draft {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  summary: string; // One line for reviewers, e.g. "send_message (123@c.us): Hi there"
+  createdAt: number; // seconds since epoch
+  status: DraftStatus;
+  decidedAt?: number;
+  decidedVia?: DecisionChannel;
+  note?: string; // Reviewer's comment
+  result?: string; // Text the tool returned once approved and executed
+}
+
+/** One line of the decision journal; every approval and rejection is appended. */
+export interface DraftDecision {
+  draftId: string;
+  tool: string;
+  args: Record<string, unknown>;
+  decision: 'approved' | 'rejected';
+  via: DecisionChannel;
+  note?: string;
+  outcome?: 'sent' | 'failed';
+  result?: string;
+  at: number;
+}
+
+type Executor = (args: Record<string, unknown>) => Promise<CallToolResult>;
+
+// Decided drafts are kept this long for list_pending_drafts / the review page
+const HISTORY_RETENTION_SECONDS = 7 * 86_400;
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Drafts created by write tools while approval mode is on. Pending drafts
+ * live in a JSON file next to the WhatsApp session, so they survive restarts;
+ * decisions are additionally appended to a JSONL journal that is never
+ * rewritten. Approving a draft runs the original tool through the executor
+ * registered for it.
+ */
+export class DraftStore {
+  private drafts = new Map<string, Draft>();
+  private executors = new Map<string, Executor>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly journalPath: string,
+  ) {
+    this.load();
+  }
+
+  // --- persistence -----------------------------------------------------
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const drafts = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Draft[];
+      const cutoff = nowSeconds() - HISTORY_RETENTION_SECONDS;
+      for (const draft of drafts) {
+        if (draft.status !== 'pending' && (draft.decidedAt ?? draft.createdAt) < cutoff) continue;
+        this.drafts.set(draft.id, draft);
+      }
+    } catch (error) {
+      log.error(`Could not read drafts at ${this.filePath}; starting empty.`, error);
+    }
+  }
+
+  private persist(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify([...this.drafts.values()], null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      log.error(`Could not write drafts at ${this.filePath}:`, error);
+    }
+  }
+
+  private journal(decision: DraftDecision): void {
+    try {
+      fs.mkdirSync(path.dirname(this.journalPath), { recursive: true });
+      fs.appendFileSync(this.journalPath, JSON.stringify(decision) + '\n');
+    } catch (error) {
+      log.error(`Could not record draft decision in ${this.journalPath}:`, error);
+    }
+  }
+
+  // --- drafts ------------------------------------------------------------
+
+  /** Register how to run `tool` once one of its drafts is approved. */
+  setExecutor(tool: string, executor: Executor): void {
+    this.executors.set(tool, executor);
+  }
+
+  create(tool: string, args: Record<string, unknown>): Draft {
+    const draft: Draft = {
+      id: randomUUID(),
+      tool,
+      args,
+      summary: summarize(tool, args),
+      createdAt: nowSeconds(),
+      status: 'pending',
+    };
+    this.drafts.set(draft.id, draft);
+    this.persist();
+    log.info(`Draft ${draft.id} awaiting approval: ${draft.summary}`);
+    return draft;
+  }
+
+  get(id: string): Draft | undefined {
+    return this.drafts.get(id);
+  }
+
+  /** Drafts, oldest first, optionally only those with the given status. */
+  list(status?: DraftStatus): Draft[] {
+    return [...this.drafts.values()]
+      .filter((draft) => !status || draft.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /** Execute a pending draft and record the approval with its outcome. */
+  async approve(id: string, via: DecisionChannel, note?: string): Promise<{ draft: Draft; result: CallToolResult }> {
+    const draft = this.pending(id);
+    const executor = this.executors.get(draft.tool);
+    if (!executor) {
+      throw new Error(`The ${draft.tool} tool is not available in this server; the draft stays pending.`);
+    }
+    // Claim the draft first so a second reviewer cannot run it twice
+    draft.status = 'approved';
+    draft.decidedAt = nowSeconds();
+    draft.decidedVia = via;
+    draft.note = note || undefined;
+    let result: CallToolResult;
+    try {
+      result = await executor(draft.args);
+    } catch (error: any) {
+      result = { content: [{ type: 'text', text: `Error running ${draft.tool}: ${error.message}` }], isError: true };
+    }
+    draft.result = resultText(result);
+    if (result.isError) draft.status = 'failed';
+    this.journal({
+      draftId: draft.id,
+      tool: draft.tool,
+      args: draft.args,
+      decision: 'approved',
+      via,
+      note: draft.note,
+      outcome: result.isError ? 'failed' : 'sent',
+      result: draft.result,
+      at: draft.decidedAt,
+    });
+    log.info(`Draft ${draft.id} approved via ${via}${result.isError ? ' but failed' : ''}: ${draft.summary}`);
+    this.persist();
+    return { draft, result };
+  }
+
+  reject(id: string, via: DecisionChannel, note?: string): Draft {
+    const draft = this.pending(id);
+    draft.status = 'rejected';
+    draft.decidedAt = nowSeconds();
+    draft.decidedVia = via;
+    draft.note = note || undefined;
+    this.journal({
+      draftId: draft.id,
+      tool: draft.tool,
+      args: draft.args,
+      decision: 'rejected',
+      via,
+      note: draft.note,
+      at: draft.decidedAt,
+    });
+    log.info(`Draft ${draft.id} rejected via ${via}: ${draft.summary}`);
+    this.persist();
+    return draft;
+  }
+
+  private pending(id: string): Draft {
+    const draft = this.drafts.get(id);
+    if (!draft) throw new Error(`Draft not found: ${id}`);
+    if (draft.status !== 'pending') throw new Error(`Draft ${id} was already ${draft.status}.`);
+    return draft;
+  }
+}
+
+function summarize(tool: string, args: Record<string, unknown>): string {
+  const target = args.recipient_jid ?? args.group_jid ?? args.message_id ?? args.title ?? args.invite;
+  const text = args.message ?? args.question ?? args.subject ?? args.description ?? args.emoji;
+  let summary = target !== undefined ? `${tool} (${String(target)})` : tool;
+  if (args.account !== undefined) summary += ` [${String(args.account)}]`;
+  if (text !== undefined && text !== '') summary += `: ${String(text)}`;
+  return summary.length > 200 ? `${summary.slice(0, 199)}…` : summary;
+}
+
+function resultText(result: CallToolResult): string {
+  return result.content
+    .map((part) => (part.type === 'text' ? part.text : `[${part.type}]`))
+    .join('\n');
+}
@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/logger.js';
+import type { SimpleMessage } from './whatsapp.js';
+
+/** A SimpleMessage as archived, plus the lifecycle state tracked after it arrived. */
+export interface StoredMessage extends SimpleMessage {
+  chatId: string; // JID of the chat the message belongs to (from/to depending on direction)
+  ack?: number; // Latest delivery status (-1 error, 0 pending, 1 server, 2 device, 3 read, 4 played)
+  editedAt?: number; // seconds since epoch
+  previousBodies?: string[]; // Bodies before each edit, oldest first
+  revoked?: 'everyone' | 'me';
+  revokedAt?: number; // seconds since epoch
+  pollVotes?: Record<string, string[]>; // Poll messages: selected option names by voter JID
+}
+
+// One line per event in the journal. Replaying the journal in order rebuilds
+// the archive, so appends never rewrite (and can never corrupt) earlier data.
+type JournalEntry =
+  | { op: 'upsert'; message: StoredMessage }
+  | { op: 'edit'; id: string; body: string; at: number }
+  | { op: 'revoke'; id: string; scope: 'everyone' | 'me'; at: number }
+  | { op: 'ack'; id: string; ack: number }
+  | { op: 'vote'; id: string; voter: string; options: string[] };
+
+/** Filters and paging for MessageStore.search(). Timestamps are seconds since epoch. */
+export interface MessageSearchOptions {
+  chatId?: string;
+  chatIds?: ReadonlySet<string>; // Only these chats, e.g. the ones the read policy allows
+  sender?: string; // JID of the sender (the author in group chats)
+  after?: number;
+  before?: number;
+  types?: string[];
+  offset?: number;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  total: number; // Hits before paging
+  hits: Array<StoredMessage & { score: number }>;
+}
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Relevance of a message body for the query terms: 0 unless every term
+ * occurs. Whole-word matches weigh more than substring matches, and the
+ * full query appearing as a phrase earns a bonus.
+ */
+function scoreBody(body: string, phrase: string, terms: string[]): number {
+  const text = body.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const substringHits = text.split(term).length - 1;
+    if (substringHits === 0) return 0;
+    const wordPattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'gu');
+    const wordHits = (text.match(wordPattern) ?? []).length;
+    score += substringHits + 2 * wordHits;
+  }
+  if (terms.length > 1 && text.includes(phrase)) score += 5;
+  return score;
+}
+
+/**
+ * Embedded on-disk archive of every message the client has seen, fed by the
+ * whatsapp-web.js message events. It lets history queries survive reconnects
+ * and covers messages received while no MCP client was connected.
+ *
+ * Storage is an append-only JSON-lines journal that is replayed into memory
+ * on startup (and compacted when it has grown well beyond the live data).
+ * Pass `null` as the path for a memory-only store (used by tests).
+ */
+export class MessageStore {
+  private messages = new Map<string, StoredMessage>();
+  private journalLines = 0;
+
+  constructor(private readonly filePath: string | null) {
+    this.load();
+  }
+
+  // --- persistence -----------------------------------------------------
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    let skipped = 0;
+    try {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          this.apply(JSON.parse(line) as JournalEntry);
+          this.journalLines++;
+        } catch {
+          // A crash mid-append leaves at most one truncated line; skip it
+          skipped++;
+        }
+      }
+    } catch (error) {
+      log.error(`Could not read message store at ${this.filePath}; starting empty.`, error);
+      this.messages.clear();
+      return;
+    }
+    if (skipped > 0) {
+      log.warn(`Skipped ${skipped} unreadable line(s) in message store ${this.filePath}.`);
+    }
+    log.info(`Loaded ${this.messages.size} archived message(s) from ${this.filePath}`);
+    if (skipped > 0 || this.journalLines > Math.max(1000, this.messages.size * 2)) {
+      this.compact();
+    }
+  }
+
+  private append(entry: JournalEntry): void {
+    this.apply(entry);
+    if (!this.filePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+      this.journalLines++;
+    } catch (error) {
+      log.error(`Could not write message store at ${this.filePath}:`, error);
+    }
+  }
+
+  /** Rewrite the journal as one upsert per message, dropping superseded events. */
+  private compact(): void {
+    if (!this.filePath) return;
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      const lines = [...this.messages.values()].map(
+        (message) => JSON.stringify({ op: 'upsert', message } satisfies JournalEntry) + '\n',
+      );
+      fs.writeFileSync(tmpPath, lines.join(''));
+      fs.renameSync(tmpPath, this.filePath);
+      this.journalLines = lines.length;
+      log.info(`Compacted message store ${this.filePath} (${lines.length} message(s)).`);
+    } catch (error) {
+      log.warn(`Could not compact message store at ${this.filePath}:`, error);
+    }
+  }
+
+  private apply(entry: JournalEntry): void {
+    if (entry.op === 'upsert') {
+      const existing = this.messages.get(entry.message.id);
+      // Keep lifecycle state recorded earlier (e.g. an ack that raced the upsert)
+      this.messages.set(entry.message.id, existing ? { ...existing, ...entry.message } : entry.message);
+      return;
+    }
+    const message = this.messages.get(entry.id);
+    if (!message) return; // Event for a message we never archived
+    switch (entry.op) {
+      case 'edit':
+        if (message.body !== entry.body) {
+          message.previousBodies = [...(message.previousBodies ?? []), message.body];
+          message.body = entry.body;
+        }
+        message.editedAt = entry.at;
+        break;
+      case 'revoke':
+        message.revoked = entry.scope;
+        message.revokedAt = entry.at;
+        break;
+      case 'ack':
+        message.ack = entry.ack;
+        break;
+      case 'vote':
+        message.pollVotes = { ...message.pollVotes, [entry.voter]: entry.options };
+        break;
+    }
+  }
+
+  // --- recording -------------------------------------------------------
+
+  /** Archive a message (or refresh an archived one). */
+  upsert(message: SimpleMessage, chatId: string, ack?: number): void {
+    const stored: StoredMessage = { ...message, chatId };
+    if (ack !== undefined) stored.ack = ack;
+    const existing = this.messages.get(stored.id);
+    // A revoked message comes back from WhatsApp as an empty husk; keep the original content
+    if (existing?.revoked) return;
+    // History backfills re-send messages we already have; don't grow the journal for those
+    if (
+      existing &&
+      Object.entries(stored).every(
+        ([key, value]) => JSON.stringify(existing[key as keyof StoredMessage]) === JSON.stringify(value),
+      )
+    ) {
+      return;
+    }
+    this.append({ op: 'upsert', message: stored });
+  }
+
+  recordEdit(id: string, body: string): void {
+    if (!this.messages.has(id)) return;
+    this.append({ op: 'edit', id, body, at: nowSeconds() });
+  }
+
+  recordRevoke(id: string, scope: 'everyone' | 'me'): void {
+    if (!this.messages.has(id)) return;
+    this.append({ op: 'revoke', id, scope, at: nowSeconds() });
+  }
+
+  recordAck(id: string, ack: number): void {
+    const message = this.messages.get(id);
+    if (!message || message.ack === ack) return;
+    this.append({ op: 'ack', id, ack });
+  }
+
+  /** A voter's current selection on a poll; an empty selection retracts the vote. */
+  recordVote(id: string, voter: string, options: string[]): void {
+    if (!this.messages.has(id)) return;
+    this.append({ op: 'vote', id, voter, options });
+  }
+
+  // --- queries ---------------------------------------------------------
+
+  get(id: string): StoredMessage | undefined {
+    return this.messages.get(id);
+  }
+
+  /** JIDs of the chats with archived messages. */
+  chatIds(): string[] {
+    return [...new Set([...this.messages.values()].map((message) => message.chatId))];
+  }
+
+  /** The `limit` most recent archived messages of a chat (all by default), oldest first. */
+  getChatMessages(chatId: string, limit = Infinity): StoredMessage[] {
+    const chatMessages = [...this.messages.values()]
+      .filter((message) => message.chatId === chatId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return chatMessages.slice(Math.max(0, chatMessages.length - limit));
+  }
+
+  /**
+   * Full-text search over archived message bodies. Every query term must
+   * match; hits are ranked by relevance, then by recency.
+   */
+  search(query: string, options: MessageSearchOptions = {}): MessageSearchResult {
+    const phrase = query.trim().toLowerCase();
+    const terms = phrase.split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return { total: 0, hits: [] };
+    const types = options.types?.length ? new Set(options.types) : null;
+
+    const hits: Array<StoredMessage & { score: number }> = [];
+    for (const message of this.messages.values()) {
+      if (options.chatId && message.chatId !== options.chatId) continue;
+      if (options.chatIds && !options.chatIds.has(message.chatId)) continue;
+      if (options.sender && (message.author || message.from) !== options.sender) continue;
+      if (options.after !== undefined && message.timestamp < options.after) continue;
+      if (options.before !== undefined && message.timestamp > options.before) continue;
+      if (types && !types.has(message.type)) continue;
+      const score = scoreBody(message.body ?? '', phrase, terms);
+      if (score > 0) hits.push({ ...message, score });
+    }
+    hits.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+
+    const offset = options.offset ?? 0;
+    return { total: hits.length, hits: hits.slice(offset, offset + (options.limit ?? 20)) };
+  }
+
+  /** All archived messages, in no particular order. */
+  all(): StoredMessage[] {
+    return [...this.messages.values()];
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+}
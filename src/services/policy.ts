@@ -0,0 +1,141 @@
+import fs from 'fs';
+import { log } from '../utils/logger.js';
+
+export type PolicyAccess = 'read' | 'write';
+
+/** Which chats one kind of access is limited to. Everything is allowed when a field is omitted. */
+export interface AccessRules {
+  allow?: string[]; // JID globs (* and ?); when set, only matching chats are allowed
+  deny?: string[]; // JID globs that are never allowed, even when they match `allow`
+  only?: 'groups' | 'contacts'; // Restrict to group chats or to one-to-one chats
+  savedContactsOnly?: boolean; // One-to-one chats only with contacts saved in the phone's address book
+}
+
+/** Contents of the policy file (WHATSAPP_POLICY_FILE). */
+export interface PolicyConfig {
+  read?: AccessRules;
+  write?: AccessRules;
+}
+
+/** A tool call or event was refused by the access policy. */
+export class PolicyViolationError extends Error {
+  constructor(
+    readonly jid: string,
+    readonly access: PolicyAccess,
+    readonly rule: string, // e.g. 'write.deny "*@broadcast"'
+  ) {
+    super(`Blocked by policy rule ${rule}: ${access === 'write' ? 'writing to' : 'reading'} ${jid} is not allowed.`);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+const isGroup = (jid: string): boolean => jid.endsWith('@g.us');
+const isContact = (jid: string): boolean => /@(c\.us|s\.whatsapp\.net|lid)$/.test(jid);
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Limits which chats tools may read from and write to. Rules are checked in
+ * order - deny, allow, only, savedContactsOnly - and the first one that
+ * fails is named in the error, so users can tell which line of the policy
+ * file to change.
+ */
+export class AccessPolicy {
+  private readonly patterns = new Map<string, RegExp>();
+
+  constructor(
+    private readonly config: PolicyConfig,
+    private readonly isSavedContact: (jid: string) => Promise<boolean>,
+  ) {
+    for (const access of ['read', 'write'] as const) {
+      const rules = config[access];
+      if (!rules) continue;
+      if (rules.only !== undefined && rules.only !== 'groups' && rules.only !== 'contacts') {
+        throw new Error(`Invalid policy: ${access}.only must be "groups" or "contacts", got ${JSON.stringify(rules.only)}.`);
+      }
+      for (const key of ['allow', 'deny'] as const) {
+        const globs = rules[key];
+        if (globs === undefined) continue;
+        if (!Array.isArray(globs) || globs.some((glob) => typeof glob !== 'string')) {
+          throw new Error(`Invalid policy: ${access}.${key} must be a list of JID globs.`);
+        }
+        for (const glob of globs) this.patterns.set(glob, globToRegExp(glob));
+      }
+    }
+  }
+
+  /** Whether `access` is limited at all (cheap check before filtering lists). */
+  restricts(access: PolicyAccess): boolean {
+    const rules = this.config[access];
+    return !!rules && (!!rules.allow || !!rules.deny?.length || !!rules.only || !!rules.savedContactsOnly);
+  }
+
+  /** Throw a PolicyViolationError naming the rule unless `access` to `jid` is allowed. */
+  async check(access: PolicyAccess, jid: string): Promise<void> {
+    const rule = await this.violatedRule(access, jid);
+    if (rule) throw new PolicyViolationError(jid, access, rule);
+  }
+
+  async allows(access: PolicyAccess, jid: string): Promise<boolean> {
+    return (await this.violatedRule(access, jid)) === null;
+  }
+
+  /** The items whose chat may be read. */
+  async filterReadable<T>(items: T[], jidOf: (item: T) => string): Promise<T[]> {
+    if (!this.restricts('read')) return items;
+    const allowed = await Promise.all(items.map((item) => this.allows('read', jidOf(item))));
+    return items.filter((_, index) => allowed[index]);
+  }
+
+  private async violatedRule(access: PolicyAccess, jid: string): Promise<string | null> {
+    const rules = this.config[access];
+    if (!rules) return null;
+    const denied = rules.deny?.find((glob) => this.patterns.get(glob)!.test(jid));
+    if (denied !== undefined) return `${access}.deny "${denied}"`;
+    if (rules.allow && !rules.allow.some((glob) => this.patterns.get(glob)!.test(jid))) {
+      return `${access}.allow (no pattern matches)`;
+    }
+    if (rules.only === 'groups' && !isGroup(jid)) return `${access}.only "groups"`;
+    if (rules.only === 'contacts' && !isContact(jid)) return `${access}.only "contacts"`;
+    if (rules.savedContactsOnly && !isGroup(jid)) {
+      let saved = false;
+      try {
+        saved = isContact(jid) && (await this.isSavedContact(jid));
+      } catch (error) {
+        log.warn(`Could not tell whether ${jid} is a saved contact; treating it as unsaved.`, error);
+      }
+      if (!saved) return `${access}.savedContactsOnly`;
+    }
+    return null;
+  }
+}
+
+/** Chat of a serialized message ID (`true_123@c.us_3EB0...`, plus `_<participant>` in groups), if recognizable. */
+export function chatIdOfMessageId(messageId: string): string | null {
+  const remote = messageId.split('_')[1];
+  return remote && remote.includes('@') ? remote : null;
+}
+
+/**
+ * Load the policy file named by WHATSAPP_POLICY_FILE, or return null when
+ * none is configured. A file that is missing or invalid stops the server
+ * instead of silently running without limits.
+ */
+export function loadPolicy(
+  filePath: string | undefined,
+  isSavedContact: (jid: string) => Promise<boolean>,
+): AccessPolicy | null {
+  if (!filePath) return null;
+  let config: PolicyConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PolicyConfig;
+  } catch (error) {
+    throw new Error(`Could not read the policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const policy = new AccessPolicy(config, isSavedContact);
+  log.info(`Access policy loaded from ${filePath}.`);
+  return policy;
+}
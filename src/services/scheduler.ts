@@ -0,0 +1,277 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'node:crypto';
+import { log } from '../utils/logger.js';
+import { parseDurationSeconds } from '../utils/time.js';
+import type { WhatsAppService } from './whatsapp.js';
+
+export type ScheduledMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'skipped';
+
+export interface ScheduledMessage {
+  id: string;
+  recipientJid: string;
+  text?: string; // Text message, or...
+  media?: { source: string; caption?: string }; // ...media from a local path or URL
+  sendAt: number; // seconds since epoch
+  createdAt: number;
+  status: ScheduledMessageStatus;
+  attempts: number;
+  nextAttemptAt?: number; // After a failed attempt: when to retry
+  lastError?: string;
+  sentAt?: number;
+  messageId?: string; // ID of the sent WhatsApp message
+}
+
+export type NewScheduledMessage = Pick<ScheduledMessage, 'recipientJid' | 'text' | 'media' | 'sendAt'>;
+
+/**
+ * What to do with a job that fires well after its time, typically because
+ * the server was down or WhatsApp was disconnected when it came due:
+ * send it anyway, skip it, or send it only if it is at most `maxLateSeconds` late.
+ */
+export type CatchUpPolicy = { mode: 'send' } | { mode: 'skip' } | { mode: 'window'; maxLateSeconds: number };
+
+export interface MessageSchedulerDeps {
+  filePath: string;
+  sender: Pick<WhatsAppService, 'isAuthenticated' | 'sendMessage' | 'sendMedia'>;
+  catchUp?: CatchUpPolicy;
+}
+
+// A job firing within this many seconds of its time is on time, not caught up
+const ON_TIME_GRACE_SECONDS = 120;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_SECONDS = 60;
+// While WhatsApp is not ready, check again this often
+const NOT_READY_RETRY_MS = 15_000;
+// Timers are re-armed at least this often (setTimeout cannot wait for months)
+const MAX_TIMER_MS = 60 * 60_000;
+// Finished jobs are kept this long for list_scheduled_messages
+const HISTORY_RETENTION_SECONDS = 30 * 86_400;
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Parse WHATSAPP_SCHEDULE_CATCH_UP: "send", "skip", or a maximum lateness
+ * such as "30m" / "2h" / "1d". Defaults to sending jobs at most one hour late.
+ */
+export function parseCatchUpPolicy(value: string | undefined): CatchUpPolicy {
+  const setting = value?.trim().toLowerCase();
+  if (!setting) return { mode: 'window', maxLateSeconds: 3_600 };
+  if (setting === 'send' || setting === 'skip') return { mode: setting };
+  const maxLateSeconds = parseDurationSeconds(setting);
+  if (maxLateSeconds === null) {
+    log.warn(`Invalid WHATSAPP_SCHEDULE_CATCH_UP '${value}'; using the default (1h).`);
+    return { mode: 'window', maxLateSeconds: 3_600 };
+  }
+  return { mode: 'window', maxLateSeconds };
+}
+
+/**
+ * Persistent queue of messages to send later. Jobs live in a JSON file next
+ * to the WhatsApp session, so they survive restarts; a single timer fires
+ * the next due job through WhatsAppService once the client is ready. Failed
+ * sends are retried a few times before the job is marked failed. A job is
+ * persisted as 'sending' before it is handed to WhatsApp, so one that was
+ * interrupted by a crash is marked failed on restart instead of being sent twice.
+ */
+export class MessageScheduler {
+  private jobs = new Map<string, ScheduledMessage>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stopped = true;
+  private readonly filePath: string;
+  private readonly sender: MessageSchedulerDeps['sender'];
+  private readonly catchUp: CatchUpPolicy;
+
+  constructor(deps: MessageSchedulerDeps) {
+    this.filePath = deps.filePath;
+    this.sender = deps.sender;
+    this.catchUp = deps.catchUp ?? parseCatchUpPolicy(process.env.WHATSAPP_SCHEDULE_CATCH_UP);
+    this.load();
+  }
+
+  // --- persistence -----------------------------------------------------
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const jobs = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ScheduledMessage[];
+      const cutoff = nowSeconds() - HISTORY_RETENTION_SECONDS;
+      let interrupted = 0;
+      for (const job of jobs) {
+        if (job.status !== 'pending' && (job.sentAt ?? job.sendAt) < cutoff) continue;
+        if (job.status === 'sending') {
+          // The server stopped mid-send: the message may or may not have gone out
+          job.status = 'failed';
+          job.nextAttemptAt = undefined;
+          job.lastError = 'Interrupted while sending; not retried because the message may already have been delivered.';
+          interrupted++;
+        }
+        this.jobs.set(job.id, job);
+      }
+      if (interrupted > 0) {
+        log.warn(`${interrupted} scheduled message(s) were interrupted while sending and are marked failed.`);
+        this.persist();
+      }
+      const pending = [...this.jobs.values()].filter((job) => job.status === 'pending').length;
+      log.info(`Loaded ${pending} pending scheduled message(s) from ${this.filePath}`);
+    } catch (error) {
+      log.error(`Could not read scheduled messages at ${this.filePath}; starting empty.`, error);
+    }
+  }
+
+  private persist(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify([...this.jobs.values()], null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      log.error(`Could not write scheduled messages at ${this.filePath}:`, error);
+    }
+  }
+
+  // --- lifecycle -------------------------------------------------------
+
+  start(): void {
+    this.stopped = false;
+    this.arm();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** (Re)arm the timer for the earliest pending job. */
+  private arm(delayMs?: number): void {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const next = Math.min(...this.pending().map((job) => job.nextAttemptAt ?? job.sendAt));
+    if (delayMs === undefined) {
+      if (!Number.isFinite(next)) return;
+      delayMs = Math.max(0, next * 1000 - Date.now());
+    }
+    this.timer = setTimeout(() => void this.runDue(), Math.min(delayMs, MAX_TIMER_MS));
+    this.timer.unref?.();
+  }
+
+  // --- jobs --------------------------------------------------------------
+
+  schedule(request: NewScheduledMessage): ScheduledMessage {
+    if (!request.text && !request.media) {
+      throw new Error('A scheduled message needs text or media.');
+    }
+    const job: ScheduledMessage = {
+      id: randomUUID(),
+      recipientJid: request.recipientJid,
+      text: request.text,
+      media: request.media,
+      sendAt: request.sendAt,
+      createdAt: nowSeconds(),
+      status: 'pending',
+      attempts: 0,
+    };
+    this.jobs.set(job.id, job);
+    this.persist();
+    log.info(`Scheduled message ${job.id} to ${job.recipientJid} for ${new Date(job.sendAt * 1000).toISOString()}`);
+    this.arm();
+    return job;
+  }
+
+  cancel(id: string): ScheduledMessage {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Scheduled message not found: ${id}`);
+    if (job.status !== 'pending') {
+      throw new Error(`Scheduled message ${id} is already ${job.status} and cannot be cancelled.`);
+    }
+    job.status = 'cancelled';
+    this.persist();
+    this.arm();
+    return job;
+  }
+
+  /** Jobs ordered by send time, optionally filtered by status and recipient. */
+  list(filter: { status?: ScheduledMessageStatus; recipientJid?: string } = {}): ScheduledMessage[] {
+    return [...this.jobs.values()]
+      .filter((job) => !filter.status || job.status === filter.status)
+      .filter((job) => !filter.recipientJid || job.recipientJid === filter.recipientJid)
+      .sort((a, b) => a.sendAt - b.sendAt);
+  }
+
+  private pending(): ScheduledMessage[] {
+    return [...this.jobs.values()].filter((job) => job.status === 'pending');
+  }
+
+  /** Send every job that is due. Exposed for tests; normally driven by the timer. */
+  async runDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = nowSeconds();
+      const due = this.pending()
+        .filter((job) => (job.nextAttemptAt ?? job.sendAt) <= now)
+        .sort((a, b) => a.sendAt - b.sendAt);
+      if (due.length > 0 && !this.sender.isAuthenticated()) {
+        log.debug(`${due.length} scheduled message(s) due, waiting for WhatsApp to be ready.`);
+        this.arm(NOT_READY_RETRY_MS);
+        return;
+      }
+      for (const job of due) {
+        await this.fire(job);
+      }
+    } finally {
+      this.running = false;
+    }
+    this.arm();
+  }
+
+  private async fire(job: ScheduledMessage): Promise<void> {
+    const lateBy = nowSeconds() - job.sendAt;
+    if (job.attempts === 0 && lateBy > ON_TIME_GRACE_SECONDS && !this.catchesUp(lateBy)) {
+      job.status = 'skipped';
+      job.lastError = `Came due ${lateBy}s ago while WhatsApp was unavailable; skipped by the catch-up policy.`;
+      log.warn(`Skipping scheduled message ${job.id}: ${lateBy}s late.`);
+      this.persist();
+      return;
+    }
+    job.attempts++;
+    job.status = 'sending';
+    this.persist();
+    try {
+      const sent = job.media
+        ? await this.sender.sendMedia(job.recipientJid, job.media.source, job.media.caption)
+        : await this.sender.sendMessage(job.recipientJid, job.text!);
+      job.status = 'sent';
+      job.sentAt = nowSeconds();
+      job.messageId = sent.id._serialized;
+      job.nextAttemptAt = undefined;
+      log.info(`Sent scheduled message ${job.id} to ${job.recipientJid}`);
+    } catch (error: any) {
+      job.lastError = error?.message ?? String(error);
+      if (job.attempts >= MAX_ATTEMPTS) {
+        job.status = 'failed';
+        job.nextAttemptAt = undefined;
+        log.error(`Scheduled message ${job.id} failed after ${job.attempts} attempts:`, error);
+      } else {
+        job.status = 'pending';
+        job.nextAttemptAt = nowSeconds() + RETRY_DELAY_SECONDS;
+        log.warn(`Scheduled message ${job.id} failed (attempt ${job.attempts}), retrying:`, error);
+      }
+    }
+    this.persist();
+  }
+
+  private catchesUp(lateBySeconds: number): boolean {
+    switch (this.catchUp.mode) {
+      case 'send':
+        return true;
+      case 'skip':
+        return false;
+      case 'window':
+        return lateBySeconds <= this.catchUp.maxLateSeconds;
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/logger.js';
+
+export interface SendLimits {
+  enabled: boolean;
+  minIntervalMs: number; // Minimum gap between any two sends
+  jitterMs: number; // Random extra delay (0..jitterMs) added to every send
+  perRecipientPerMinute: number;
+  globalPerMinute: number;
+  dailyCap: number; // Sends per rolling 24 hours
+  maxWaitMs: number; // Sends that would have to wait longer are rejected instead of deferred
+}
+
+export interface SendQueueStatus {
+  limits: SendLimits;
+  queued: number; // Sends waiting for their slot
+  sentLastMinute: number;
+  sentLast24h: number;
+  dailyRemaining: number | null; // null without a daily cap
+  busiestRecipients: Array<{ recipient: string; sentLastMinute: number }>;
+}
+
+/** A send was refused because it would exceed a limit; nothing was sent. */
+export class SendRateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = 'SendRateLimitError';
+  }
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+};
+
+/** Limits from WHATSAPP_SEND_* env vars; the defaults stay well below what gets accounts flagged. */
+export function sendLimitsFromEnv(): SendLimits {
+  return {
+    enabled: process.env.WHATSAPP_SEND_RATE_LIMIT !== 'false',
+    minIntervalMs: envNumber('WHATSAPP_SEND_MIN_INTERVAL_MS', 1_500),
+    jitterMs: envNumber('WHATSAPP_SEND_JITTER_MS', 1_500),
+    perRecipientPerMinute: envNumber('WHATSAPP_SEND_PER_RECIPIENT_PER_MINUTE', 10),
+    globalPerMinute: envNumber('WHATSAPP_SEND_PER_MINUTE', 20),
+    dailyCap: envNumber('WHATSAPP_SEND_DAILY_CAP', 500),
+    maxWaitMs: envNumber('WHATSAPP_SEND_MAX_WAIT_MS', 60_000),
+  };
+}
+
+interface SendQueueDeps {
+  limits?: Partial<SendLimits>;
+  /** Where completed sends of the last 24 hours are kept, so the daily cap survives restarts. */
+  filePath?: string | null;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * Paces outbound sends so an agent loop cannot blast messages: sends are
+ * spaced by a minimum interval plus random jitter, within per-recipient and
+ * global per-minute limits and a rolling daily cap. Sends to one recipient
+ * run in order; a send waiting for its recipient's limit holds up only that
+ * recipient. A send that fits within `maxWaitMs` is deferred until its slot;
+ * otherwise (and always once the daily cap is reached) it is rejected with a
+ * SendRateLimitError that says when to retry. Only completed sends count
+ * toward the limits.
+ */
+export class SendQueue {
+  readonly limits: SendLimits;
+  private sent: Array<{ at: number; recipient: string }> = []; // Last 24h, oldest first
+  private tail: Promise<unknown> = Promise.resolve(); // Serializes the global limits
+  private readonly recipientTails = new Map<string, Promise<unknown>>();
+  private queued = 0;
+  private readonly filePath: string | null;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  constructor(deps: SendQueueDeps = {}) {
+    this.limits = { ...sendLimitsFromEnv(), ...deps.limits };
+    this.filePath = deps.filePath ?? null;
+    this.now = deps.now ?? Date.now;
+    this.sleep = deps.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = deps.random ?? Math.random;
+    this.load();
+  }
+
+  // --- persistence -----------------------------------------------------
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      this.sent = (JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as typeof this.sent).sort((a, b) => a.at - b.at);
+      this.prune(this.now());
+    } catch (error) {
+      log.error(`Could not read the send log at ${this.filePath}; starting empty.`, error);
+    }
+  }
+
+  private persist(): void {
+    if (!this.filePath) return;
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(this.sent));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      log.error(`Could not write the send log at ${this.filePath}:`, error);
+    }
+  }
+
+  // --- sending ---------------------------------------------------------
+
+  /** Run `send` for `recipient` once the limits allow it. */
+  run<T>(recipient: string, send: () => Promise<T>): Promise<T> {
+    if (!this.limits.enabled) return send();
+    this.queued++;
+    const result = (this.recipientTails.get(recipient) ?? Promise.resolve()).then(async () => {
+      try {
+        await this.waitForRecipient(recipient);
+        const entry = await this.serialized(() => this.waitForSlot(recipient));
+        try {
+          return await send();
+        } catch (error) {
+          // A failed send does not count toward the limits
+          this.sent = this.sent.filter((other) => other !== entry);
+          throw error;
+        } finally {
+          this.persist();
+        }
+      } finally {
+        this.queued--;
+      }
+    });
+    // A rejected send must not stall the ones queued behind it
+    const tail = result.catch(() => {});
+    this.recipientTails.set(recipient, tail);
+    void tail.then(() => {
+      if (this.recipientTails.get(recipient) === tail) this.recipientTails.delete(recipient);
+    });
+    return result;
+  }
+
+  /** Run `task` after the tasks before it, without letting a failure stall later ones. */
+  private serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.catch(() => {});
+    return result;
+  }
+
+  /** Wait until the recipient's own per-minute limit allows another send. */
+  private async waitForRecipient(recipient: string): Promise<void> {
+    const now = this.now();
+    this.prune(now);
+    const { perRecipientPerMinute } = this.limits;
+    const toRecipient = this.sent.filter((entry) => entry.at > now - MINUTE_MS && entry.recipient === recipient);
+    if (perRecipientPerMinute <= 0 || toRecipient.length < perRecipientPerMinute) return;
+    const earliest = toRecipient[toRecipient.length - perRecipientPerMinute].at + MINUTE_MS;
+    await this.deferUntil(earliest, `${perRecipientPerMinute} sends per minute to ${recipient}`, recipient);
+  }
+
+  /**
+   * Wait for the next slot the global limits allow, then take it. Returns the
+   * entry recording the send, to be removed again should the send fail.
+   */
+  private async waitForSlot(recipient: string): Promise<{ at: number; recipient: string }> {
+    const now = this.now();
+    this.prune(now);
+    const { dailyCap, globalPerMinute, minIntervalMs } = this.limits;
+
+    if (dailyCap > 0 && this.sent.length >= dailyCap) {
+      const retryAfterMs = this.sent[this.sent.length - dailyCap].at + DAY_MS - now;
+      throw new SendRateLimitError(
+        `Daily send cap of ${dailyCap} messages reached; the next send is possible in ${formatMs(retryAfterMs)} ` +
+          '(WHATSAPP_SEND_DAILY_CAP).',
+        retryAfterMs,
+      );
+    }
+
+    const lastMinute = this.sent.filter((entry) => entry.at > now - MINUTE_MS);
+    // Earliest time each limit allows another send
+    const constraints: Array<[string, number]> = [];
+    if (this.sent.length > 0) constraints.push(['minimum interval', this.sent[this.sent.length - 1].at + minIntervalMs]);
+    if (globalPerMinute > 0 && lastMinute.length >= globalPerMinute) {
+      constraints.push([`${globalPerMinute} sends per minute`, lastMinute[lastMinute.length - globalPerMinute].at + MINUTE_MS]);
+    }
+    const [reason, earliest] = constraints.reduce<[string, number]>(
+      (latest, constraint) => (constraint[1] > latest[1] ? constraint : latest),
+      ['', now],
+    );
+    await this.deferUntil(earliest, reason, recipient, Math.floor(this.random() * this.limits.jitterMs));
+
+    const entry = { at: this.now(), recipient };
+    this.sent.push(entry);
+    return entry;
+  }
+
+  /** Sleep until `earliest` (plus `jitterMs`), or reject if that is more than maxWaitMs away. */
+  private async deferUntil(earliest: number, reason: string, recipient: string, jitterMs = 0): Promise<void> {
+    const { maxWaitMs } = this.limits;
+    const waitMs = Math.max(0, earliest - this.now());
+    if (waitMs > maxWaitMs) {
+      throw new SendRateLimitError(
+        `Rate limit reached (${reason}); the send would have to wait ${formatMs(waitMs)}, more than the allowed ` +
+          `${formatMs(maxWaitMs)}. Retry later.`,
+        waitMs,
+      );
+    }
+    const delayMs = waitMs + jitterMs;
+    if (delayMs > 0) {
+      if (waitMs > 0) log.info(`Deferring send to ${recipient} by ${formatMs(delayMs)} (${reason}).`);
+      await this.sleep(delayMs);
+    }
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - DAY_MS;
+    const firstRecent = this.sent.findIndex((entry) => entry.at > cutoff);
+    this.sent = firstRecent < 0 ? [] : this.sent.slice(firstRecent);
+  }
+
+  status(): SendQueueStatus {
+    const now = this.now();
+    this.prune(now);
+    const lastMinute = this.sent.filter((entry) => entry.at > now - MINUTE_MS);
+    const perRecipient = new Map<string, number>();
+    for (const entry of lastMinute) perRecipient.set(entry.recipient, (perRecipient.get(entry.recipient) ?? 0) + 1);
+    return {
+      limits: this.limits,
+      queued: this.queued,
+      sentLastMinute: lastMinute.length,
+      sentLast24h: this.sent.length,
+      dailyRemaining: this.limits.dailyCap > 0 ? Math.max(0, this.limits.dailyCap - this.sent.length) : null,
+      busiestRecipients: [...perRecipient.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([recipient, sentLastMinute]) => ({ recipient, sentLastMinute })),
+    };
+  }
+}
+
+function formatMs(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 120) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 120 ? `${minutes} min` : `${Math.ceil(minutes / 60)} h`;
+}
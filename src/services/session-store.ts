@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, createHmac } from 'node:crypto';
+import type WAWebJS from 'whatsapp-web.js';
+
+const DEFAULT_BACKUP_MINUTES = 5;
+
+/**
+ * Where RemoteAuth keeps the session archive, so a linked device survives
+ * the loss of the local disk. RemoteAuth zips the browser profile to
+ * `<workDir>/<session>.zip` before save() and expects extract() to write
+ * the archive to the given path.
+ */
+export interface SessionStore extends WAWebJS.Store {
+  /** Shown in the log, e.g. "s3://bucket/prefix/". */
+  readonly location: string;
+}
+
+/** RemoteAuth settings for a session store, from the environment. */
+export interface RemoteSessionConfig {
+  store: SessionStore;
+  /** How often the session is backed up while connected (at least a minute). */
+  backupIntervalMs: number;
+}
+
+/**
+ * Session archives in a directory, e.g. a volume that outlives the
+ * container. Archives are replaced atomically (temp file, then rename).
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(
+    private readonly dir: string,
+    private readonly workDir: string,
+  ) {}
+
+  get location(): string {
+    return this.dir;
+  }
+
+  sessionExists({ session }: { session: string }): boolean {
+    return fs.existsSync(this.archivePath(session));
+  }
+
+  save({ session }: { session: string }): void {
+    const archive = this.archivePath(session);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.copyFileSync(path.join(this.workDir, `${session}.zip`), `${archive}.tmp`);
+    fs.renameSync(`${archive}.tmp`, archive);
+  }
+
+  extract({ session, path: target }: { session: string; path: string }): void {
+    fs.copyFileSync(this.archivePath(session), target);
+  }
+
+  delete({ session }: { session: string }): void {
+    fs.rmSync(this.archivePath(session), { force: true });
+  }
+
+  private archivePath(session: string): string {
+    return path.join(this.dir, `${session}.zip`);
+  }
+}
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface S3SessionStoreOptions {
+  /** Service URL, e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000 (MinIO). */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  credentials: S3Credentials;
+  /** Key prefix for the archives, e.g. "whatsapp/". */
+  prefix?: string;
+}
+
+/**
+ * Session archives in an S3-compatible bucket (AWS S3, MinIO, R2, ...),
+ * addressed path-style and signed with AWS Signature Version 4.
+ */
+export class S3SessionStore implements SessionStore {
+  constructor(
+    private readonly options: S3SessionStoreOptions,
+    private readonly workDir: string,
+  ) {}
+
+  get location(): string {
+    return `s3://${this.options.bucket}/${this.options.prefix ?? ''}`;
+  }
+
+  async sessionExists({ session }: { session: string }): Promise<boolean> {
+    const response = await this.request('HEAD', session);
+    if (response.status === 404) return false;
+    await this.check(response, 'HEAD', session);
+    return true;
+  }
+
+  async save({ session }: { session: string }): Promise<void> {
+    const body = await fs.promises.readFile(path.join(this.workDir, `${session}.zip`));
+    await this.check(await this.request('PUT', session, body), 'PUT', session);
+  }
+
+  async extract({ session, path: target }: { session: string; path: string }): Promise<void> {
+    const response = await this.request('GET', session);
+    await this.check(response, 'GET', session);
+    await fs.promises.writeFile(target, Buffer.from(await response.arrayBuffer()));
+  }
+
+  async delete({ session }: { session: string }): Promise<void> {
+    const response = await this.request('DELETE', session);
+    if (response.status !== 404) await this.check(response, 'DELETE', session);
+  }
+
+  private key(session: string): string {
+    return `${this.options.prefix ?? ''}${session}.zip`;
+  }
+
+  private request(method: string, session: string, body?: Buffer): Promise<Response> {
+    const base = this.options.endpoint.replace(/\/+$/, '');
+    const url = new URL(`${base}/${this.options.bucket}/${this.key(session)}`);
+    const headers = signS3Request({
+      method,
+      url,
+      headers: body ? { 'content-type': 'application/zip' } : {},
+      payloadHash: sha256Hex(body ?? ''),
+      region: this.options.region,
+      credentials: this.options.credentials,
+    });
+    return fetch(url, { method, headers, body: body ? new Uint8Array(body) : undefined });
+  }
+
+  private async check(response: Response, method: string, session: string): Promise<void> {
+    if (response.ok) return;
+    const detail = method === 'HEAD' ? '' : `: ${(await response.text()).slice(0, 300)}`;
+    throw new Error(`S3 ${method} ${this.options.bucket}/${this.key(session)} failed with ${response.status}${detail}`);
+  }
+}
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+// RFC 3986 encoding of one path segment, as SigV4 expects
+const encodeSegment = (segment: string): string =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Sign an S3 request with AWS Signature Version 4. Signs `headers` along
+ * with host, x-amz-date and x-amz-content-sha256, and returns the headers
+ * to send (everything but host, which fetch sets itself).
+ */
+export function signS3Request(request: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  credentials: S3Credentials;
+  date?: Date;
+}): Record<string, string> {
+  const { method, url, payloadHash, region, credentials } = request;
+  const amzDate = (request.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(credentials.sessionToken && { 'x-amz-security-token': credentials.sessionToken }),
+  };
+  const signed: Record<string, string> = { ...headers, host: url.host };
+  const names = Object.keys(signed).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname.split('/').map((segment) => encodeSegment(decodeURIComponent(segment))).join('/'),
+    [...url.searchParams]
+      .map(([name, value]) => `${encodeSegment(name)}=${encodeSegment(value)}`)
+      .sort()
+      .join('&'),
+    names.map((name) => `${name}:${signed[name]}\n`).join(''),
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  let key = hmac(`AWS4${credentials.secretAccessKey}`, amzDate.slice(0, 8));
+  for (const part of [region, 's3', 'aws4_request']) key = hmac(key, part);
+  const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * The session store selected by WHATSAPP_SESSION_STORE: "file" (archives in
+ * WHATSAPP_SESSION_STORE_DIR) or "s3" (WHATSAPP_S3_* settings). Null keeps
+ * the session in the local profile (LocalAuth). `workDir` is the session
+ * directory, where RemoteAuth stages its archive.
+ */
+export function remoteSessionFromEnv(workDir: string, env = process.env): RemoteSessionConfig | null {
+  const kind = (env.WHATSAPP_SESSION_STORE ?? '').trim().toLowerCase();
+  if (kind === '' || kind === 'local') return null;
+
+  const minutes = Number(env.WHATSAPP_SESSION_BACKUP_MINUTES || DEFAULT_BACKUP_MINUTES);
+  if (!Number.isFinite(minutes) || minutes < 1) {
+    throw new Error('WHATSAPP_SESSION_BACKUP_MINUTES must be at least 1.');
+  }
+  const backupIntervalMs = minutes * 60_000;
+
+  if (kind === 'file') {
+    if (!env.WHATSAPP_SESSION_STORE_DIR) {
+      throw new Error('WHATSAPP_SESSION_STORE=file requires WHATSAPP_SESSION_STORE_DIR.');
+    }
+    return { store: new FileSessionStore(path.resolve(env.WHATSAPP_SESSION_STORE_DIR), workDir), backupIntervalMs };
+  }
+  if (kind === 's3') {
+    const accessKeyId = env.WHATSAPP_S3_ACCESS_KEY_ID ?? env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = env.WHATSAPP_S3_SECRET_ACCESS_KEY ?? env.AWS_SECRET_ACCESS_KEY;
+    const missing = [
+      !env.WHATSAPP_S3_ENDPOINT && 'WHATSAPP_S3_ENDPOINT',
+      !env.WHATSAPP_S3_BUCKET && 'WHATSAPP_S3_BUCKET',
+      !accessKeyId && 'WHATSAPP_S3_ACCESS_KEY_ID',
+      !secretAccessKey && 'WHATSAPP_S3_SECRET_ACCESS_KEY',
+    ].filter(Boolean);
+    if (missing.length > 0) throw new Error(`WHATSAPP_SESSION_STORE=s3 requires ${missing.join(', ')}.`);
+    const store = new S3SessionStore(
+      {
+        endpoint: env.WHATSAPP_S3_ENDPOINT!,
+        bucket: env.WHATSAPP_S3_BUCKET!,
+        region: env.WHATSAPP_S3_REGION || env.AWS_REGION || 'us-east-1',
+        credentials: {
+          accessKeyId: accessKeyId!,
+          secretAccessKey: secretAccessKey!,
+          sessionToken: env.WHATSAPP_S3_SESSION_TOKEN ?? env.AWS_SESSION_TOKEN,
+        },
+        prefix: env.WHATSAPP_S3_PREFIX,
+      },
+      workDir,
+    );
+    return { store, backupIntervalMs };
+  }
+  throw new Error(`Unknown WHATSAPP_SESSION_STORE "${kind}": use local, file or s3.`);
+}
@@ -4,9 +4,11 @@ const require = createRequire(import.meta.url);
 const { 
   Client,
   LocalAuth,
+  RemoteAuth,
   MessageMedia,
-  // Message, Contact, Chat, ClientOptions - Not directly used, accessed via WAWebJS namespace
-  // GroupChat // Import if needed later
+  Poll,
+  Location,
+  // Message, Contact, Chat, GroupChat, ClientOptions - Not directly used, accessed via WAWebJS namespace
 } = require('whatsapp-web.js');
 
 // Import types from the module
@@ -14,8 +16,15 @@ import type WAWebJS from 'whatsapp-web.js';
 
 import { log } from '../utils/logger.js';
 import path from 'path';
+import fs from 'fs';
+import os from 'os';
 import { BrowserProcessManager } from '../utils/browser-process-manager.js';
 import { findBrowserExecutable } from '../utils/browser-finder.js';
+import { MessageSearchOptions, MessageStore, StoredMessage } from './message-store.js';
+import { SendQueue, SendQueueStatus } from './send-queue.js';
+import { RemoteSessionConfig, remoteSessionFromEnv } from './session-store.js';
+import { StickerUtils } from '../utils/audio.js';
+import { parseVCard, VCardContact } from '../utils/vcard.js';
 
 // Define custom types or interfaces if needed, mapping from whatsapp-web.js types
 // For now, we'll use whatsapp-web.js types directly where possible,
@@ -52,7 +61,142 @@ export interface SimpleMessage {
   hasMedia: boolean;
   mediaKey?: string;
   type: string; // e.g., 'chat', 'image', 'video', 'ptt'
-  // Add more fields as needed
+  author?: string; // JID of the actual sender (in group chats `from` is the group)
+  authorName?: string; // Display name of the author: saved name, then pushname, then number
+  ack?: number; // Delivery status: -1 error, 0 pending, 1 server, 2 device, 3 read, 4 played
+  isForwarded?: boolean;
+  forwardingScore?: number; // How often the message was forwarded (max 127)
+  hasQuotedMsg: boolean; // The message is a reply
+  quotedMsgId?: string; // Serialized ID of the message replied to, when known
+  quotedMsg?: SimpleQuotedMessage;
+  mentionedIds: string[]; // JIDs @mentioned in the message
+  location?: SimpleLocation; // type 'location'
+  vCards?: string[]; // type 'vcard' / 'multi_vcard'
+  contacts?: VCardContact[]; // The vCards, decoded
+  links?: Array<{ link: string; isSuspicious: boolean }>;
+  poll?: SimplePoll; // type 'poll_creation'
+  editedAt?: number; // seconds since epoch of the last edit
+  isRevoked?: boolean; // Deleted for everyone; body and media are gone
+  duration?: number; // seconds, for audio and video
+  media?: SimpleMediaInfo; // Attachment metadata, available without downloading
+}
+
+/** What a reply quotes, as far as WhatsApp Web includes it in the reply. */
+export interface SimpleQuotedMessage {
+  body: string;
+  type: string;
+  author?: string; // JID of the quoted message's sender
+}
+
+export interface SimpleLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+export interface SimplePoll {
+  question: string;
+  options: string[];
+  allowMultipleAnswers: boolean;
+  votes: Array<{ option: string; count: number; voters: string[] }>; // One entry per option, in order
+  totalVoters: number; // Voters with at least one option selected
+}
+
+export interface SimpleMediaInfo {
+  mimetype?: string;
+  filename?: string;
+  size?: number; // bytes
+}
+
+/** Options for WhatsAppService.sendMessage(). */
+export interface SendMessageOptions {
+  quotedMessageId?: string; // Send as a reply to this message
+  mentions?: string[]; // JIDs to @mention (groups)
+  linkPreview?: boolean;
+  sendSeen?: boolean; // Mark the chat as read when sending
+}
+
+export interface SimpleGroupParticipant {
+  id: string; // JID
+  isAdmin: boolean;
+  isSuperAdmin: boolean; // The group creator
+}
+
+export interface SimpleGroupInfo {
+  id: string; // JID
+  name: string;
+  description: string | null;
+  owner: string | null; // JID of the creator
+  createdAt: number | null; // seconds since epoch
+  participants: SimpleGroupParticipant[];
+  messagesAdminsOnly: boolean; // Only admins can send messages
+  infoAdminsOnly: boolean; // Only admins can edit subject, description and picture
+  addMembersAdminsOnly: boolean; // Only admins can add participants
+}
+
+export interface GroupSettings {
+  messagesAdminsOnly?: boolean;
+  infoAdminsOnly?: boolean;
+  addMembersAdminsOnly?: boolean;
+}
+
+/** Filters and paging for getMessages(). Timestamps are seconds since epoch. */
+export interface MessageListOptions {
+  limit?: number;
+  before?: number;
+  after?: number;
+  from?: string; // Sender JID (the author in groups)
+  types?: string[];
+  fromMe?: boolean;
+  cursor?: string; // nextCursor of a previous page, to continue further back in history
+}
+
+export interface MessagePage {
+  messages: SimpleMessage[]; // Oldest first
+  hasMore: boolean; // Whether older matching messages may exist
+  nextCursor: string | null; // Pass as `cursor` to fetch the next (older) page
+  source: 'live' | 'archive'; // 'archive': the client was not ready, so only archived history was listed
+}
+
+/** Live message activity, as forwarded to subscribed MCP sessions. */
+export type MessageEventKind = 'message' | 'edit' | 'revoke' | 'ack' | 'vote';
+
+export interface MessageEvent {
+  kind: MessageEventKind;
+  chatId: string;
+  message: SimpleMessage;
+  ack?: number; // kind 'ack': the new delivery status
+  previousBody?: string; // kind 'edit': the text before the edit
+  revokedFor?: 'everyone' | 'me'; // kind 'revoke'
+  vote?: { voter: string; selectedOptions: string[] }; // kind 'vote': the voter's new selection
+}
+
+export interface MessageContext {
+  chatId: string;
+  targetMessage: SimpleMessage;
+  before: SimpleMessage[]; // Oldest first, ending right before the target
+  after: SimpleMessage[]; // Oldest first, starting right after the target
+}
+
+export interface MessageSearchHit extends SimpleMessage {
+  chatId: string;
+  chatName: string | null;
+  score: number; // Relevance; higher is better
+}
+
+/** Filters and paging for searchMessages(). Timestamps are seconds since epoch. */
+export interface SearchMessagesOptions extends Omit<MessageSearchOptions, 'chatIds'> {
+  /** Which chats may be searched (e.g. the read policy); applied before counting and paging. */
+  readable?: (chatId: string) => Promise<boolean>;
+}
+
+export interface MessageSearchResults {
+  total: number; // Matches before paging
+  offset: number;
+  hasMore: boolean;
+  results: MessageSearchHit[];
 }
 
 /** Injectable dependencies, used by tests to substitute fakes. */
@@ -60,6 +204,23 @@ export interface WhatsAppServiceDeps {
   /** Factory producing a (fake) whatsapp-web.js Client. Defaults to `new Client(options)`. */
   clientFactory?: (options: WAWebJS.ClientOptions) => WAWebJS.Client;
   browserProcessManager?: BrowserProcessManager;
+  /** Message archive. Defaults to a journal in the session directory; `null` disables archiving. */
+  messageStore?: MessageStore | null;
+  /** Paces outbound sends. Defaults to limits from the WHATSAPP_SEND_* env vars. */
+  sendQueue?: SendQueue;
+  /**
+   * Named account (WHATSAPP_ACCOUNTS): its own LocalAuth clientId and a
+   * session directory below WHATSAPP_SESSION_DIR. Omit for the unnamed
+   * account that uses WHATSAPP_SESSION_DIR itself.
+   */
+  account?: string;
+  /** Phone number to pair with at startup. Defaults to WHATSAPP_PAIRING_PHONE_NUMBER; null disables it. */
+  pairingPhoneNumber?: string | null;
+  /**
+   * Back the session up to a store with RemoteAuth instead of keeping it in
+   * the local profile only. Defaults to WHATSAPP_SESSION_STORE; null uses LocalAuth.
+   */
+  remoteSession?: RemoteSessionConfig | null;
 }
 
 export class WhatsAppService {
@@ -85,24 +246,76 @@ export class WhatsAppService {
   private registeredBrowserPid: number | null = null;
   // LocalAuth profile location. Overridable so multiple instances (or e2e
   // tests) can run against isolated session directories.
-  private readonly sessionDataPath = process.env.WHATSAPP_SESSION_DIR
-    ? path.resolve(process.env.WHATSAPP_SESSION_DIR)
-    : path.join(process.cwd(), 'whatsapp-sessions');
+  private readonly sessionDataPath: string;
+  private readonly account: string | null;
+  private readonly pairingPhoneNumber: string | null;
+  private readonly remoteSession: RemoteSessionConfig | null;
   // Notified when the WhatsApp session itself becomes invalid (logout or
   // authentication failure) - used e.g. to revoke OAuth tokens.
   private sessionInvalidatedListeners: Array<() => void> = [];
+  private messageEventListeners = new Set<(event: MessageEvent) => void>();
+  // Contact display names by JID, refreshed in bulk from getContacts()
+  private contactNames = new Map<string, string>();
+  private contactNamesLoadedAt = 0;
+  // Poll message ID -> voter JID -> selected option names, fed by 'vote_update'
+  private pollVotes = new Map<string, Map<string, string[]>>();
+  // Local archive of every message seen, so history outlives the browser
+  // session. WHATSAPP_MESSAGE_STORE relocates the journal; 'false' disables it.
+  private readonly messageStore: MessageStore | null;
+  // Every outbound message goes through here so rate limits apply to all tools
+  private readonly sendQueue: SendQueue;
 
   constructor(deps?: WhatsAppServiceDeps) {
+    const sessionRoot = process.env.WHATSAPP_SESSION_DIR
+      ? path.resolve(process.env.WHATSAPP_SESSION_DIR)
+      : path.join(process.cwd(), 'whatsapp-sessions');
+    this.account = deps?.account ?? null;
+    this.sessionDataPath = this.account ? path.join(sessionRoot, this.account) : sessionRoot;
+    this.pairingPhoneNumber =
+      deps?.pairingPhoneNumber !== undefined
+        ? deps.pairingPhoneNumber
+        : (process.env.WHATSAPP_PAIRING_PHONE_NUMBER ?? null);
+    this.remoteSession = deps?.remoteSession !== undefined ? deps.remoteSession : remoteSessionFromEnv(this.sessionDataPath);
+    if (this.remoteSession) {
+      log.info(
+        `WhatsApp session${this.account ? ` of account ${this.account}` : ''} is restored from and backed up to ` +
+          `${this.remoteSession.store.location} every ${this.remoteSession.backupIntervalMs / 60_000} min.`,
+      );
+    }
     this.clientFactory = deps?.clientFactory;
     this.browserProcessManager = deps?.browserProcessManager ?? new BrowserProcessManager();
+    this.messageStore = deps?.messageStore !== undefined ? deps.messageStore : this.createMessageStore();
+    this.sendQueue = deps?.sendQueue ?? new SendQueue({ filePath: path.join(this.sessionDataPath, 'send-log.json') });
+    for (const message of this.messageStore?.all() ?? []) {
+      if (message.pollVotes) this.pollVotes.set(message.id, new Map(Object.entries(message.pollVotes)));
+    }
     this.client = this.createClient();
   }
 
+  /**
+   * The browser profile (user-data-dir) the auth strategy launches with, a
+   * subdirectory of the session directory named like whatsapp-web.js does.
+   */
+  private browserProfilePath(): string {
+    const name = this.remoteSession ? 'RemoteAuth' : 'session';
+    return path.join(this.sessionDataPath, this.account ? `${name}-${this.account}` : name);
+  }
+
   private buildClientOptions(): WAWebJS.ClientOptions {
     return {
-      authStrategy: new LocalAuth({
-        dataPath: this.sessionDataPath, // Project root by default; WHATSAPP_SESSION_DIR overrides
-      }),
+      // RemoteAuth restores the profile from the store before the browser
+      // starts and backs it up periodically; it stages files in the session dir
+      authStrategy: this.remoteSession
+        ? new RemoteAuth({
+            store: this.remoteSession.store,
+            dataPath: this.sessionDataPath,
+            backupSyncIntervalMs: this.remoteSession.backupIntervalMs,
+            ...(this.account && { clientId: this.account }),
+          })
+        : new LocalAuth({
+            dataPath: this.sessionDataPath, // Project root by default; WHATSAPP_SESSION_DIR overrides
+            ...(this.account && { clientId: this.account }),
+          }),
       puppeteer: {
         // WHATSAPP_HEADLESS=false shows the browser window (debugging aid)
         headless: process.env.WHATSAPP_HEADLESS !== 'false',
@@ -127,9 +340,9 @@ export class WhatsAppService {
       // code instead of relying on the QR code. The code is surfaced via the
       // 'code' event (logged to stderr) and regenerated automatically every
       // ~3 minutes until pairing succeeds.
-      ...(process.env.WHATSAPP_PAIRING_PHONE_NUMBER && {
+      ...(this.pairingPhoneNumber && {
         pairWithPhoneNumber: {
-          phoneNumber: process.env.WHATSAPP_PAIRING_PHONE_NUMBER.replace(/\D/g, ''),
+          phoneNumber: this.pairingPhoneNumber.replace(/\D/g, ''),
           showNotification: true,
         },
       }),
@@ -144,6 +357,18 @@ export class WhatsAppService {
     };
   }
 
+  private createMessageStore(): MessageStore | null {
+    const setting = process.env.WHATSAPP_MESSAGE_STORE;
+    if (setting === 'false') {
+      log.info('Message archive disabled (WHATSAPP_MESSAGE_STORE=false).');
+      return null;
+    }
+    // A relocated journal belongs to the unnamed account; named accounts keep theirs apart
+    return new MessageStore(
+      setting && !this.account ? path.resolve(setting) : path.join(this.sessionDataPath, 'message-store.jsonl'),
+    );
+  }
+
   private createClient(): WAWebJS.Client {
     const options = this.buildClientOptions();
     const client = this.clientFactory ? this.clientFactory(options) : new Client(options);
@@ -159,7 +384,7 @@ export class WhatsAppService {
       this.isAuthenticating = false; // A (new) QR means we are waiting for the user
     });
 
-    // Fired when WHATSAPP_PAIRING_PHONE_NUMBER is configured. Written directly
+    // Fired when a pairing phone number is configured. Written directly
     // to stderr, bypassing the logger and its level configuration: the pairing
     // code must always surface in the MCP client's server logs (FLUJO, Claude,
     // Cline, ...) so the user can complete authentication. stderr never
@@ -169,8 +394,8 @@ export class WhatsAppService {
       process.stderr.write(
         '\n' +
           '========================================================\n' +
-          `  WhatsApp pairing code: ${code}\n` +
-          `  On the phone with number ${process.env.WHATSAPP_PAIRING_PHONE_NUMBER}:\n` +
+          `  WhatsApp pairing code${this.account ? ` (account ${this.account})` : ''}: ${code}\n` +
+          `  On the phone with number ${this.pairingPhoneNumber}:\n` +
           '  Settings > Linked Devices > Link a device\n' +
           '  > "Link with phone number instead" - enter the code.\n' +
           '  A fresh code is generated every ~3 minutes.\n' +
@@ -197,6 +422,10 @@ export class WhatsAppService {
       this.scheduleReconnect(`authentication failure: ${msg}`);
     });
 
+    client.on('remote_session_saved', () => {
+      log.info(`WhatsApp session backed up to ${this.remoteSession?.store.location}.`);
+    });
+
     client.on('ready', () => {
       log.info('WhatsApp client is ready.');
       this.isInitialized = true;
@@ -210,10 +439,41 @@ export class WhatsAppService {
     });
 
     client.on('message_create', async (message: WAWebJS.Message) => {
-      // Fired on all message creations, including your own
+      // Fired on all message creations, including your own - the single
+      // archiving point for both directions
       if (message.fromMe) {
         log.debug('Sent message:', JSON.stringify(message));
       }
+      this.archiveMessage(message);
+      this.emitMessageEvent('message', message);
+    });
+
+    client.on('message_edit', (message: WAWebJS.Message, newBody: string, prevBody: string) => {
+      this.messageStore?.recordEdit(message.id._serialized, String(newBody));
+      this.emitMessageEvent('edit', message, { previousBody: String(prevBody) });
+    });
+
+    client.on('message_revoke_everyone', (message: WAWebJS.Message, revokedMsg?: WAWebJS.Message | null) => {
+      this.messageStore?.recordRevoke((revokedMsg ?? message).id._serialized, 'everyone');
+      this.emitMessageEvent('revoke', revokedMsg ?? message, { revokedFor: 'everyone' });
+    });
+
+    client.on('message_revoke_me', (message: WAWebJS.Message) => {
+      this.messageStore?.recordRevoke(message.id._serialized, 'me');
+      this.emitMessageEvent('revoke', message, { revokedFor: 'me' });
+    });
+
+    client.on('message_ack', (message: WAWebJS.Message, ack: WAWebJS.MessageAck) => {
+      this.messageStore?.recordAck(message.id._serialized, ack);
+      this.emitMessageEvent('ack', message, { ack });
+    });
+
+    client.on('vote_update', (vote: WAWebJS.PollVote) => {
+      const pollId = vote.parentMessage?.id?._serialized;
+      if (!pollId) return;
+      const selected = (vote.selectedOptions ?? []).map((option) => option.name).filter(Boolean);
+      this.recordPollVote(pollId, vote.voter, selected);
+      this.emitMessageEvent('vote', vote.parentMessage, { vote: { voter: vote.voter, selectedOptions: selected } });
     });
 
     client.on('disconnected', (reason: any) => {
@@ -355,7 +615,7 @@ export class WhatsAppService {
     // we know from the PID file and any unregistered leftover that still holds
     // the profile lock (e.g. the server was force-killed mid-initialize).
     await this.browserProcessManager.cleanupOrphanedProcesses();
-    await this.browserProcessManager.killBrowsersUsingProfile(this.sessionDataPath);
+    await this.browserProcessManager.killBrowsersUsingProfile(this.browserProfilePath());
 
     log.info('Initializing WhatsApp client...');
     const client = this.client;
@@ -386,7 +646,7 @@ export class WhatsAppService {
         // lock. Kill it and retry instead of staying broken until a restart.
         log.warn('Browser profile is locked; killing the lock holder and scheduling a retry.');
         try {
-          await this.browserProcessManager.killBrowsersUsingProfile(this.sessionDataPath, {
+          await this.browserProcessManager.killBrowsersUsingProfile(this.browserProfilePath(), {
             includeOwnedByCurrentProcess: true,
           });
         } catch (cleanupError) {
@@ -499,7 +759,7 @@ export class WhatsAppService {
           await this.browserProcessManager.killProcessTree(pid);
         } else {
           // Browser never got registered (killed mid-launch): find it by its profile path
-          await this.browserProcessManager.killBrowsersUsingProfile(this.sessionDataPath, {
+          await this.browserProcessManager.killBrowsersUsingProfile(this.browserProfilePath(), {
             includeOwnedByCurrentProcess: true,
           });
         }
@@ -531,6 +791,8 @@ export class WhatsAppService {
       await this.client.logout();
       this.isInitialized = false;
       this.latestQrCode = null;
+      this.contactNames.clear(); // The next account has other contacts
+      this.contactNamesLoadedAt = 0;
       log.info('Successfully logged out of WhatsApp');
       this.notifySessionInvalidated();
 
@@ -642,6 +904,43 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Register a listener for live message activity (new messages, edits,
+   * revokes and acks). Returns a function that removes the listener.
+   */
+  onMessageEvent(listener: (event: MessageEvent) => void): () => void {
+    this.messageEventListeners.add(listener);
+    return () => {
+      this.messageEventListeners.delete(listener);
+    };
+  }
+
+  /** Whether anything listens for message events, e.g. a session's subscription. */
+  hasMessageEventListeners(): boolean {
+    return this.messageEventListeners.size > 0;
+  }
+
+  private emitMessageEvent(
+    kind: MessageEventKind,
+    message: WAWebJS.Message,
+    details: Omit<MessageEvent, 'kind' | 'chatId' | 'message'> = {},
+  ): void {
+    if (this.messageEventListeners.size === 0) return;
+    const event: MessageEvent = {
+      kind,
+      chatId: chatIdOf(message),
+      message: this.mapMessageToSimpleMessage(message),
+      ...details,
+    };
+    for (const listener of this.messageEventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        log.warn('Message event listener failed:', error);
+      }
+    }
+  }
+
   /**
    * Request a pairing code as an alternative to scanning the QR code.
    * The user enters the returned 8-character code on their phone under
@@ -715,17 +1014,8 @@ export class WhatsAppService {
              // if (fullLastMessage) {
              //     lastMsg = this.mapMessageToSimpleMessage(fullLastMessage);
              // }
-             // Or map the partial info directly if sufficient
-             lastMsg = {
-                 id: chat.lastMessage.id._serialized,
-                 body: chat.lastMessage.body,
-                 from: chat.lastMessage.from,
-                 to: chat.lastMessage.to,
-                 timestamp: chat.lastMessage.timestamp,
-                 fromMe: chat.lastMessage.fromMe,
-                 hasMedia: chat.lastMessage.hasMedia,
-                 type: chat.lastMessage.type,
-             };
+             // chat.lastMessage is already a Message, so the regular mapper applies
+             lastMsg = this.mapMessageToSimpleMessage(chat.lastMessage);
          }
          simpleChats.push(this.mapChatToSimpleChat(chat, lastMsg));
      }
@@ -743,6 +1033,13 @@ export class WhatsAppService {
     }
   }
 
+  /** Whether `jid` is saved in the phone's address book (used by savedContactsOnly policies). */
+  async isSavedContact(jid: string): Promise<boolean> {
+    await this.ensureReady();
+    const contact = await this.client.getContactById(jid);
+    return !!contact?.isMyContact;
+  }
+
    async getContactById(contactId: string): Promise<SimpleContact | null> {
     await this.ensureReady();
     try {
@@ -754,34 +1051,405 @@ export class WhatsAppService {
     }
   }
 
-  async getMessages(chatId: string, limit = 50): Promise<SimpleMessage[]> {
+  /**
+   * Page backwards through a chat's history. fetchMessages() can only return
+   * the N most recent messages, so the fetch window grows until it covers
+   * enough matching messages (or the start of the chat / the `after` bound)
+   * and the filters are applied here. Fetched messages are merged into the
+   * archive and pages are cut from it, so history WhatsApp Web no longer
+   * loads is still listed; while the client is not ready, pages come from
+   * the archive alone. Pages are ordered by (timestamp, id), so messages
+   * sharing a second are neither skipped nor repeated.
+   */
+  async getMessages(chatId: string, options: MessageListOptions = {}): Promise<MessagePage> {
+    const limit = options.limit ?? 50;
+    const cursor = options.cursor ? decodeMessageCursor(options.cursor) : null;
+    const types = options.types?.length ? new Set(options.types) : null;
+    // Everything at or after the cursor was returned by an earlier page
+    const selected = (message: SimpleMessage) =>
+      (!cursor || comparePositions(message, cursor) < 0) &&
+      (options.before === undefined || message.timestamp <= options.before) &&
+      (options.after === undefined || message.timestamp >= options.after) &&
+      (!options.from || (message.author || message.from) === options.from) &&
+      (options.fromMe === undefined || message.fromMe === options.fromMe) &&
+      (!types || types.has(message.type));
+    const archived = (store: MessageStore) => store.getChatMessages(chatId).sort(comparePositions).filter(selected);
+
+    if (this.messageStore && !this.isInitialized) {
+      const matching = archived(this.messageStore);
+      return { ...(await this.pageOf(matching, limit, null)), source: 'archive' };
+    }
+
     await this.ensureReady();
     try {
       const chat = await this.client.getChatById(chatId);
       if (!chat) throw new Error(`Chat not found: ${chatId}`);
-      const messages = await chat.fetchMessages({ limit });
-      return messages.map(this.mapMessageToSimpleMessage.bind(this));
+
+      let window = Math.max(limit + 1, 50); // +1 tells whether older messages exist
+      for (;;) {
+        const fetched = await chat.fetchMessages({ limit: window, fromMe: options.fromMe });
+        // Backfill the archive with history fetched from the browser
+        fetched.forEach((message) => this.archiveMessage(message));
+        const scanned = fetched
+          .map((message) => this.mapMessageToSimpleMessage(message))
+          .sort(comparePositions)
+          .filter((message) => !cursor || comparePositions(message, cursor) < 0);
+        const matching = this.messageStore ? archived(this.messageStore) : scanned.filter(selected);
+
+        const reachedStart = fetched.length < window;
+        const reachedAfter =
+          options.after !== undefined && fetched.length > 0 && Math.min(...fetched.map((m) => m.timestamp)) < options.after;
+        // Each call scans at most MAX_HISTORY_FETCH messages past the cursor;
+        // the next page carries on from the oldest one scanned
+        const scanLimit = fetched.length - scanned.length + MAX_HISTORY_FETCH;
+        const capped = !reachedStart && !reachedAfter && scanned.length >= MAX_HISTORY_FETCH;
+        if (matching.length > limit || reachedStart || reachedAfter || capped) {
+          return { ...(await this.pageOf(matching, limit, capped ? scanned[0] : null)), source: 'live' };
+        }
+        window = Math.min(window * 2, scanLimit);
+      }
     } catch (error: any) {
       log.error(`Failed to get messages for chat ${chatId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * The newest `limit` of the matching messages (oldest first). `resumeFrom`
+   * is where the next page starts when older history was left unscanned.
+   */
+  private async pageOf(
+    matching: SimpleMessage[],
+    limit: number,
+    resumeFrom: HistoryPosition | null,
+  ): Promise<Omit<MessagePage, 'source'>> {
+    const page = matching.slice(Math.max(0, matching.length - limit));
+    const hasMore = matching.length > limit || resumeFrom !== null;
+    return {
+      messages: await this.withAuthorNames(page),
+      hasMore,
+      nextCursor: hasMore ? encodeMessageCursor(page[0] ?? resumeFrom!) : null,
+    };
+  }
+
+  /**
+   * Exactly `before` messages preceding and `after` messages following a
+   * message in its chat. History is loaded backwards until the target (and
+   * the requested number of predecessors) is covered.
+   */
+  async getMessageContext(messageId: string, before = 10, after = 10): Promise<MessageContext> {
+    await this.ensureReady();
+    const target = await this.client.getMessageById(messageId);
+    if (!target) throw new Error(`Message not found: ${messageId}`);
+    const chatId = chatIdOf(target);
+    const chat = await this.client.getChatById(chatId);
+    if (!chat) throw new Error(`Chat not found: ${chatId}`);
+
+    let window = Math.max(before + after + 1, 50);
+    for (;;) {
+      const fetched = await chat.fetchMessages({ limit: window });
+      fetched.forEach((message) => this.archiveMessage(message));
+      fetched.sort((a, b) => a.timestamp - b.timestamp);
+      const index = fetched.findIndex((message) => message.id._serialized === messageId);
+      const reachedStart = fetched.length < window;
+      // Done once the target has `before` predecessors loaded, or nothing older can be loaded
+      if ((index >= 0 && index >= before) || reachedStart || window >= MAX_HISTORY_FETCH) {
+        if (index < 0) {
+          throw new Error(
+            `Message ${messageId} was not found in the ${fetched.length} most recent messages of chat ${chatId}.`,
+          );
+        }
+        const contextMessages = await this.withAuthorNames(
+          fetched.slice(Math.max(0, index - before), index + 1 + after).map(this.mapMessageToSimpleMessage.bind(this)),
+        );
+        const targetIndex = Math.min(index, before);
+        return {
+          chatId,
+          targetMessage: contextMessages[targetIndex],
+          before: contextMessages.slice(0, targetIndex),
+          after: contextMessages.slice(targetIndex + 1),
+        };
+      }
+      window = Math.min(window * 2, MAX_HISTORY_FETCH);
+    }
+  }
+
   async getMessageById(messageId: string): Promise<SimpleMessage | null> {
      await this.ensureReady();
      try {
          const message = await this.client.getMessageById(messageId);
-      return message ? this.mapMessageToSimpleMessage(message) : null;
+      if (message) {
+        if (message.type === 'poll_creation') await this.syncPollVotes(message);
+        return this.mapMessageToSimpleMessage(message);
+      }
      } catch (error: any) { // Add type any
          log.warn(`Failed to get message by ID ${messageId}:`, error);
-         return null;
      }
+     // WhatsApp Web no longer has it loaded (or it was deleted): fall back to the archive
+     return this.getArchivedMessage(messageId) ?? null;
+  }
+
+  /**
+   * Full-text search across all chats. Served from the local message archive
+   * (works even while the client is offline); falls back to WhatsApp Web's
+   * own search when archiving is disabled.
+   */
+  async searchMessages(query: string, options: SearchMessagesOptions = {}): Promise<MessageSearchResults> {
+    const { readable, ...filters } = options;
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    let total: number;
+    let hits: Array<SimpleMessage & { chatId: string; score: number }>;
+
+    if (this.messageStore) {
+      const chatIds = readable ? new Set(await filterAsync(this.messageStore.chatIds(), readable)) : undefined;
+      ({ total, hits } = this.messageStore.search(query, { ...filters, chatIds, offset, limit }));
+    } else {
+      await this.ensureReady();
+      // WhatsApp Web only filters by chat; apply the remaining filters locally
+      const found = await this.client.searchMessages(query, {
+        chatId: options.chatId,
+        limit: offset + limit,
+      });
+      const types = options.types?.length ? new Set(options.types) : null;
+      let matching = found
+        .map((message) => ({ ...this.mapMessageToSimpleMessage(message), chatId: chatIdOf(message), score: 1 }))
+        .filter(
+          (message) =>
+            (!options.sender || (message.author || message.from) === options.sender) &&
+            (options.after === undefined || message.timestamp >= options.after) &&
+            (options.before === undefined || message.timestamp <= options.before) &&
+            (!types || types.has(message.type)),
+        );
+      if (readable) matching = await filterAsync(matching, (message) => readable(message.chatId));
+      total = matching.length;
+      hits = matching.slice(offset, offset + limit);
+    }
+
+    const chatNames = await this.resolveChatNames(hits.map((hit) => hit.chatId));
+    return {
+      total,
+      offset,
+      hasMore: offset + hits.length < total,
+      results: hits.map((hit) => ({ ...hit, chatName: chatNames.get(hit.chatId) ?? null })),
+    };
+  }
+
+  /**
+   * Display names for a set of chat JIDs, from a single getChats() call.
+   * Best effort: empty while the client is not ready.
+   */
+  private async resolveChatNames(chatIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    if (chatIds.length === 0 || !this.isInitialized) return names;
+    try {
+      const wanted = new Set(chatIds);
+      for (const chat of await this.client.getChats()) {
+        if (wanted.has(chat.id._serialized)) names.set(chat.id._serialized, chat.name);
+      }
+    } catch (error) {
+      log.warn('Failed to resolve chat names:', error);
+    }
+    return names;
+  }
+
+  /**
+   * Fill in `authorName` from a cached contact lookup. Unknown authors
+   * trigger at most one bulk getContacts() refresh per CONTACT_NAMES_REFRESH_MS
+   * instead of a getContactById() per message; still-unknown ones fall back
+   * to the number part of their JID.
+   */
+  private async withAuthorNames(messages: SimpleMessage[]): Promise<SimpleMessage[]> {
+    const authors = new Set(messages.map((message) => message.author).filter((jid): jid is string => !!jid));
+    const age = Date.now() - this.contactNamesLoadedAt;
+    const missing = [...authors].some((jid) => !this.contactNames.has(jid));
+    if (authors.size > 0 && this.isInitialized && (age > CONTACT_NAMES_TTL_MS || (missing && age > CONTACT_NAMES_REFRESH_MS))) {
+      try {
+        const contacts = await this.client.getContacts();
+        this.contactNames.clear();
+        for (const contact of contacts) {
+          const name = contact.name || contact.pushname || contact.number;
+          if (name) this.contactNames.set(contact.id._serialized, name);
+        }
+        this.contactNamesLoadedAt = Date.now();
+      } catch (error) {
+        log.warn('Failed to load contact names:', error);
+      }
+    }
+    return messages.map((message) =>
+      message.author
+        ? { ...message, authorName: this.contactNames.get(message.author) ?? message.author.split('@')[0] }
+        : message,
+    );
+  }
+
+  /** The archived copy of a message, including its edit/revoke/ack state, if any. */
+  getArchivedMessage(messageId: string): StoredMessage | undefined {
+    return this.messageStore?.get(messageId);
+  }
+
+  /** The local message archive, or null when archiving is disabled. */
+  getMessageStore(): MessageStore | null {
+    return this.messageStore;
+  }
+
+  /** Directory holding the WhatsApp session and the server's local state files. */
+  getSessionDataPath(): string {
+    return this.sessionDataPath;
+  }
+
+  private archiveMessage(message: WAWebJS.Message): void {
+    if (!this.messageStore) return;
+    try {
+      this.messageStore.upsert(this.mapMessageToSimpleMessage(message), chatIdOf(message), message.ack);
+    } catch (error) {
+      log.warn(`Failed to archive message ${message.id?._serialized}:`, error);
+    }
+  }
+
+  async sendMessage(to: string, content: string, options: SendMessageOptions = {}): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    log.info(`Sending message to ${to}${options.quotedMessageId ? ` in reply to ${options.quotedMessageId}` : ''}`);
+    const mentions = options.mentions ?? [];
+    // WhatsApp only renders a mention whose @<number> token appears in the text
+    const missingTokens = mentions
+      .map((jid) => `@${jid.split('@')[0]}`)
+      .filter((token) => !content.includes(token));
+    const text = missingTokens.length > 0 ? `${missingTokens.join(' ')} ${content}` : content;
+    const sendOptions: WAWebJS.MessageSendOptions = {};
+    if (options.quotedMessageId) sendOptions.quotedMessageId = options.quotedMessageId;
+    if (mentions.length > 0) sendOptions.mentions = mentions;
+    if (options.linkPreview !== undefined) sendOptions.linkPreview = options.linkPreview;
+    if (options.sendSeen !== undefined) sendOptions.sendSeen = options.sendSeen;
+    return this.send(to, text, sendOptions);
+  }
+
+  /** Send a poll; options must be unique (WhatsApp allows 2 to 12). */
+  async sendPoll(to: string, question: string, options: string[], allowMultipleAnswers = false): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    if (options.length < 2 || options.length > 12) {
+      throw new Error(`A poll needs between 2 and 12 options, got ${options.length}.`);
+    }
+    if (new Set(options).size !== options.length) {
+      throw new Error('Poll options must be unique.');
+    }
+    log.info(`Sending poll to ${to}`);
+    const poll = new Poll(question, options, { allowMultipleAnswers, messageSecret: undefined });
+    return this.send(to, poll);
+  }
+
+  /**
+   * Vote on a poll with the given option names (replacing any earlier vote
+   * of this account); an empty list retracts the vote.
+   */
+  async voteInPoll(messageId: string, optionNames: string[]): Promise<SimpleMessage> {
+    const message = await this.getRawMessage(messageId);
+    if (message.type !== 'poll_creation') {
+      throw new Error(`Message ${messageId} is not a poll.`);
+    }
+    const poll = this.mapMessageToSimpleMessage(message).poll!;
+    const unknown = optionNames.filter((name) => !poll.options.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown poll option(s): ${unknown.join(', ')}. Available: ${poll.options.join(', ')}.`);
+    }
+    if (!poll.allowMultipleAnswers && optionNames.length > 1) {
+      throw new Error('This poll allows only one option to be selected.');
+    }
+    log.info(`Voting on poll ${messageId}`);
+    await message.vote(optionNames);
+    const ownJid = this.client.info?.wid?._serialized;
+    if (ownJid) this.recordPollVote(messageId, ownJid, optionNames);
+    return this.mapMessageToSimpleMessage(message);
+  }
+
+  private recordPollVote(pollId: string, voter: string, options: string[]): void {
+    const votes = this.pollVotes.get(pollId) ?? new Map<string, string[]>();
+    votes.set(voter, options);
+    this.pollVotes.set(pollId, votes);
+    this.messageStore?.recordVote(pollId, voter, options);
+  }
+
+  /** Catch up on votes cast while the client was not listening. Best effort. */
+  private async syncPollVotes(message: WAWebJS.Message): Promise<void> {
+    try {
+      const votes = await message.getPollVotes();
+      const pollId = message.id._serialized;
+      const known = this.pollVotes.get(pollId);
+      for (const vote of votes) {
+        const selected = (vote.selectedOptions ?? []).map((option) => option.name).filter(Boolean);
+        const previous = known?.get(vote.voter);
+        if (previous && previous.join('\n') === selected.join('\n')) continue;
+        this.recordPollVote(pollId, vote.voter, selected);
+      }
+    } catch (error) {
+      log.debug(`Failed to load poll votes for ${message.id._serialized}:`, error);
+    }
   }
 
-  async sendMessage(to: string, content: string): Promise<WAWebJS.Message> {
+  async sendLocation(
+    to: string,
+    latitude: number,
+    longitude: number,
+    details: { name?: string; address?: string; url?: string } = {},
+  ): Promise<WAWebJS.Message> {
     await this.ensureReady();
-    log.info(`Sending message to ${to}`);
-    return this.client.sendMessage(to, content);
+    log.info(`Sending location to ${to}`);
+    return this.send(to, new Location(latitude, longitude, details));
+  }
+
+  /** Share one or more WhatsApp contacts as contact cards. */
+  async sendContactCards(to: string, contactIds: string[]): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    const contacts = await Promise.all(contactIds.map((id) => this.client.getContactById(id)));
+    log.info(`Sending ${contacts.length} contact card(s) to ${to}`);
+    return this.send(to, contacts.length === 1 ? contacts[0] : contacts);
+  }
+
+  /** Send a raw vCard, which WhatsApp shows as a contact card. */
+  async sendVCard(to: string, vcard: string): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    if (!/^BEGIN:VCARD/i.test(vcard.trim()) || !/END:VCARD\s*$/i.test(vcard.trim())) {
+      throw new Error('Invalid vCard: expected text from BEGIN:VCARD to END:VCARD.');
+    }
+    log.info(`Sending vCard to ${to}`);
+    return this.send(to, vcard.trim(), { parseVCards: true });
+  }
+
+  /**
+   * Send an image or short video as a sticker. Anything that is not WebP
+   * yet is converted with ffmpeg first (videos and GIFs become animated).
+   */
+  async sendSticker(
+    to: string,
+    media: WAWebJS.MessageMedia,
+    metadata: { name?: string; author?: string } = {},
+  ): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    let sticker = media;
+    if (media.mimetype !== 'image/webp') {
+      if (!/^(image|video)\//.test(media.mimetype)) {
+        throw new Error(`Cannot make a sticker from ${media.mimetype}; use an image or a short video.`);
+      }
+      const extension = media.mimetype.split('/')[1].split(';')[0].replace(/[^a-z0-9]/gi, '') || 'bin';
+      const inputPath = path.join(os.tmpdir(), `whatsapp_sticker_input_${Date.now()}.${extension}`);
+      let outputPath: string | null = null;
+      try {
+        fs.writeFileSync(inputPath, Buffer.from(media.data, 'base64'));
+        const animated = media.mimetype.startsWith('video/') || media.mimetype === 'image/gif';
+        outputPath = await StickerUtils.convertToWebpStickerTemp(inputPath, animated);
+        sticker = new MessageMedia('image/webp', fs.readFileSync(outputPath).toString('base64'), 'sticker.webp');
+      } finally {
+        for (const file of [inputPath, outputPath]) {
+          if (file && fs.existsSync(file)) fs.unlinkSync(file);
+        }
+      }
+    }
+    log.info(`Sending sticker to ${to}`);
+    return this.send(to, sticker, {
+      sendMediaAsSticker: true,
+      stickerName: metadata.name,
+      stickerAuthor: metadata.author,
+    });
   }
 
   async sendMedia(to: string, mediaPathOrUrl: string, caption?: string): Promise<WAWebJS.Message> {
@@ -793,14 +1461,247 @@ export class WhatsAppService {
     } else {
       media = MessageMedia.fromFilePath(mediaPathOrUrl);
     }
-    return this.client.sendMessage(to, media, { caption });
+    return this.send(to, media, { caption });
   }
 
    async sendMediaFromBase64(to: string, base64Data: string, mimeType: string, filename?: string, caption?: string): Promise<WAWebJS.Message> {
     await this.ensureReady();
     log.info(`Sending media from base64 to ${to}`);
     const media = new MessageMedia(mimeType, base64Data, filename);
-    return this.client.sendMessage(to, media, { caption });
+    return this.send(to, media, { caption });
+  }
+
+  /** Send prepared media (e.g. a converted voice note) with whatsapp-web.js send options. */
+  async sendMediaObject(
+    to: string,
+    media: WAWebJS.MessageMedia,
+    options: WAWebJS.MessageSendOptions = {},
+  ): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    log.info(`Sending ${media.mimetype} media to ${to}`);
+    return this.send(to, media, options);
+  }
+
+  private send(
+    to: string,
+    content: WAWebJS.MessageContent,
+    options?: WAWebJS.MessageSendOptions,
+  ): Promise<WAWebJS.Message> {
+    return this.sendQueue.run(to, () => this.client.sendMessage(to, content, options));
+  }
+
+  /** Recent send counts and the configured limits of the outbound queue. */
+  getSendQueueStatus(): SendQueueStatus {
+    return this.sendQueue.status();
+  }
+
+  // --- Acting on existing messages ---
+
+  /** React with an emoji; an empty string removes this account's reaction. */
+  async reactToMessage(messageId: string, reaction: string): Promise<void> {
+    const message = await this.getRawMessage(messageId);
+    log.info(reaction ? `Reacting to message ${messageId}` : `Removing reaction from message ${messageId}`);
+    await message.react(reaction);
+  }
+
+  /** Edit the text of one of this account's messages (WhatsApp allows this for about 15 minutes). */
+  async editMessage(messageId: string, content: string): Promise<SimpleMessage> {
+    const message = await this.getRawMessage(messageId);
+    if (!message.fromMe) {
+      throw new Error(`Message ${messageId} was not sent by this account and cannot be edited.`);
+    }
+    log.info(`Editing message ${messageId}`);
+    const edited = await message.edit(content);
+    if (!edited) {
+      throw new Error(`WhatsApp refused to edit message ${messageId}: messages can only be edited for 15 minutes after sending.`);
+    }
+    return this.mapMessageToSimpleMessage(edited);
+  }
+
+  /**
+   * Delete a message for this account only, or for everyone in the chat
+   * (own messages, or any message when this account is a group admin).
+   */
+  async deleteMessage(messageId: string, forEveryone: boolean): Promise<void> {
+    const message = await this.getRawMessage(messageId);
+    log.info(`Deleting message ${messageId} ${forEveryone ? 'for everyone' : 'for me'}`);
+    await message.delete(forEveryone);
+  }
+
+  async starMessage(messageId: string, starred: boolean): Promise<void> {
+    const message = await this.getRawMessage(messageId);
+    if (starred) {
+      await message.star();
+    } else {
+      await message.unstar();
+    }
+  }
+
+  /** Pin a message for `durationSeconds`, or unpin it when the duration is 0. */
+  async pinMessage(messageId: string, durationSeconds: number): Promise<void> {
+    const message = await this.getRawMessage(messageId);
+    log.info(durationSeconds > 0 ? `Pinning message ${messageId} for ${durationSeconds}s` : `Unpinning message ${messageId}`);
+    const done = durationSeconds > 0 ? await message.pin(durationSeconds) : await message.unpin();
+    if (!done) {
+      throw new Error(`Could not ${durationSeconds > 0 ? 'pin' : 'unpin'} message ${messageId}: in groups only admins may pin other members' messages.`);
+    }
+  }
+
+  /** Forward a message to each of the given chats; one failure does not stop the others. */
+  async forwardMessage(messageId: string, chatIds: string[]): Promise<Array<{ chatId: string; success: boolean; error?: string }>> {
+    const message = await this.getRawMessage(messageId);
+    const results: Array<{ chatId: string; success: boolean; error?: string }> = [];
+    for (const chatId of chatIds) {
+      try {
+        await this.sendQueue.run(chatId, () => message.forward(chatId));
+        results.push({ chatId, success: true });
+      } catch (error: any) {
+        log.warn(`Failed to forward message ${messageId} to ${chatId}:`, error);
+        results.push({ chatId, success: false, error: error.message });
+      }
+    }
+    return results;
+  }
+
+  private async getRawMessage(messageId: string): Promise<WAWebJS.Message> {
+    await this.ensureReady();
+    const message = await this.client.getMessageById(messageId);
+    if (!message) throw new Error(`Message not found: ${messageId}`);
+    return message;
+  }
+
+  // --- Groups ---
+
+  async createGroup(
+    title: string,
+    participantIds: string[],
+  ): Promise<{ id: string; title: string; participants: Record<string, { statusCode: number; message: string }> }> {
+    await this.ensureReady();
+    log.info(`Creating group '${title}' with ${participantIds.length} participant(s)`);
+    const result = await this.client.createGroup(title, participantIds);
+    if (typeof result === 'string') {
+      throw new Error(result); // whatsapp-web.js reports failures as a message string
+    }
+    const participants: Record<string, { statusCode: number; message: string }> = {};
+    for (const [id, outcome] of Object.entries(result.participants ?? {})) {
+      participants[id] = { statusCode: outcome.statusCode, message: outcome.message };
+    }
+    return { id: result.gid._serialized, title: result.title, participants };
+  }
+
+  async getGroupInfo(groupId: string): Promise<SimpleGroupInfo> {
+    const group = await this.getGroupChat(groupId);
+    return this.mapGroupToSimpleGroupInfo(group);
+  }
+
+  /** Add participants; returns the per-participant outcome reported by WhatsApp. */
+  async addGroupParticipants(
+    groupId: string,
+    participantIds: string[],
+  ): Promise<Record<string, { code: number; message: string; isInviteV4Sent: boolean }>> {
+    const group = await this.getGroupChat(groupId);
+    log.info(`Adding ${participantIds.length} participant(s) to group ${groupId}`);
+    const result = await group.addParticipants(participantIds);
+    if (typeof result === 'string') {
+      throw new Error(result);
+    }
+    // The typings nest AddParticipantsResult one level too deep; at runtime
+    // the result is keyed by participant id directly
+    return result as unknown as Record<string, { code: number; message: string; isInviteV4Sent: boolean }>;
+  }
+
+  async removeGroupParticipants(groupId: string, participantIds: string[]): Promise<void> {
+    const group = await this.getGroupChat(groupId);
+    log.info(`Removing ${participantIds.length} participant(s) from group ${groupId}`);
+    assertGroupStatus(await group.removeParticipants(participantIds), 'remove participants');
+  }
+
+  async promoteGroupParticipants(groupId: string, participantIds: string[]): Promise<void> {
+    const group = await this.getGroupChat(groupId);
+    log.info(`Promoting ${participantIds.length} participant(s) in group ${groupId}`);
+    assertGroupStatus(await group.promoteParticipants(participantIds), 'promote participants');
+  }
+
+  async demoteGroupParticipants(groupId: string, participantIds: string[]): Promise<void> {
+    const group = await this.getGroupChat(groupId);
+    log.info(`Demoting ${participantIds.length} participant(s) in group ${groupId}`);
+    assertGroupStatus(await group.demoteParticipants(participantIds), 'demote participants');
+  }
+
+  async setGroupSubject(groupId: string, subject: string): Promise<void> {
+    const group = await this.getGroupChat(groupId);
+    if (!(await group.setSubject(subject))) {
+      throw new Error(`Could not change the subject of group ${groupId}: admin rights are probably required.`);
+    }
+  }
+
+  async setGroupDescription(groupId: string, description: string): Promise<void> {
+    const group = await this.getGroupChat(groupId);
+    if (!(await group.setDescription(description))) {
+      throw new Error(`Could not change the description of group ${groupId}: admin rights are probably required.`);
+    }
+  }
+
+  /** Apply the given settings; unspecified ones are left unchanged. */
+  async updateGroupSettings(groupId: string, settings: GroupSettings): Promise<SimpleGroupInfo> {
+    const group = await this.getGroupChat(groupId);
+    const updates: Array<[string, boolean | undefined, (adminsOnly: boolean) => Promise<boolean>]> = [
+      ['messagesAdminsOnly', settings.messagesAdminsOnly, (v) => group.setMessagesAdminsOnly(v)],
+      ['infoAdminsOnly', settings.infoAdminsOnly, (v) => group.setInfoAdminsOnly(v)],
+      ['addMembersAdminsOnly', settings.addMembersAdminsOnly, (v) => group.setAddMembersAdminsOnly(v)],
+    ];
+    for (const [name, value, apply] of updates) {
+      if (value === undefined) continue;
+      if (!(await apply(value))) {
+        throw new Error(`Could not change ${name} of group ${groupId}: admin rights are probably required.`);
+      }
+    }
+    return this.mapGroupToSimpleGroupInfo(group);
+  }
+
+  async getGroupInviteLink(groupId: string): Promise<string> {
+    const group = await this.getGroupChat(groupId);
+    return `${GROUP_INVITE_URL}${await group.getInviteCode()}`;
+  }
+
+  /** Invalidate the current invite link and return the new one. */
+  async revokeGroupInviteLink(groupId: string): Promise<string> {
+    const group = await this.getGroupChat(groupId);
+    log.info(`Revoking invite link of group ${groupId}`);
+    await group.revokeInvite();
+    return `${GROUP_INVITE_URL}${await group.getInviteCode()}`;
+  }
+
+  /** Join a group by invite link or bare invite code; returns the group JID. */
+  async joinGroupByInvite(inviteLinkOrCode: string): Promise<string> {
+    const code = inviteCodeOf(inviteLinkOrCode);
+    await this.ensureReady();
+    log.info('Joining group via invite code');
+    return this.client.acceptInvite(code);
+  }
+
+  /** JID of the group an invite link or code leads to, without joining it. */
+  async getInviteGroupId(inviteLinkOrCode: string): Promise<string> {
+    const code = inviteCodeOf(inviteLinkOrCode);
+    await this.ensureReady();
+    const info = (await this.client.getInviteInfo(code)) as { id?: string | { _serialized?: string } } | undefined;
+    const groupId = wid(info?.id);
+    if (!groupId) throw new Error('Could not tell which group the invite leads to.');
+    return groupId;
+  }
+
+  async leaveGroup(groupId: string): Promise<void> {
+    const group = await this.getGroupChat(groupId);
+    log.info(`Leaving group ${groupId}`);
+    await group.leave();
+  }
+
+  private async getGroupChat(groupId: string): Promise<WAWebJS.GroupChat> {
+    await this.ensureReady();
+    const chat = await this.client.getChatById(groupId);
+    if (!chat) throw new Error(`Chat not found: ${groupId}`);
+    if (!chat.isGroup) throw new Error(`${groupId} is not a group chat.`);
+    return chat as WAWebJS.GroupChat;
   }
 
   async downloadMedia(messageId: string): Promise<WAWebJS.MessageMedia | null> {
@@ -847,8 +1748,31 @@ export class WhatsAppService {
     };
   }
 
-  private mapMessageToSimpleMessage(message: WAWebJS.Message): SimpleMessage {
+  private mapGroupToSimpleGroupInfo(group: WAWebJS.GroupChat): SimpleGroupInfo {
+    // announce/restrict/memberAddMode are only exposed on the raw group metadata
+    const metadata = (group as { groupMetadata?: { announce?: boolean; restrict?: boolean; memberAddMode?: string } })
+      .groupMetadata;
     return {
+      id: group.id._serialized,
+      name: group.name,
+      description: group.description || null,
+      owner: group.owner?._serialized ?? null,
+      createdAt: group.createdAt ? Math.floor(group.createdAt.getTime() / 1000) : null,
+      participants: (group.participants ?? []).map((participant) => ({
+        id: participant.id._serialized,
+        isAdmin: participant.isAdmin,
+        isSuperAdmin: participant.isSuperAdmin,
+      })),
+      messagesAdminsOnly: !!metadata?.announce,
+      infoAdminsOnly: !!metadata?.restrict,
+      addMembersAdminsOnly: metadata?.memberAddMode === 'admin_add',
+    };
+  }
+
+  private mapMessageToSimpleMessage(message: WAWebJS.Message): SimpleMessage {
+    // Attachment and quote details are only exposed on the raw message model
+    const data = rawDataOf(message);
+    const simple: SimpleMessage = {
       id: message.id._serialized,
       body: message.body,
       from: message.from,
@@ -858,8 +1782,67 @@ export class WhatsAppService {
       hasMedia: message.hasMedia,
       mediaKey: message.mediaKey,
       type: message.type,
-      // Add more fields as needed, e.g., ack status, quoted message info
+      author: message.author || message.from,
+      ack: message.ack,
+      hasQuotedMsg: message.hasQuotedMsg,
+      quotedMsgId: message.hasQuotedMsg ? quotedMessageIdOf(message, this.client?.info?.wid?._serialized) : undefined,
+      // Typed as strings, but WhatsApp Web may hand over serialized Wid objects
+      mentionedIds: ((message.mentionedIds ?? []) as Array<string | { _serialized: string }>).map((id) =>
+        typeof id === 'string' ? id : id._serialized,
+      ),
     };
+    if (message.isForwarded) {
+      simple.isForwarded = true;
+      simple.forwardingScore = message.forwardingScore;
+    }
+    if (message.hasQuotedMsg && data.quotedMsg) {
+      simple.quotedMsg = {
+        body: data.quotedMsg.body ?? data.quotedMsg.caption ?? '',
+        type: data.quotedMsg.type ?? 'unknown',
+        author: wid(data.quotedParticipant),
+      };
+    }
+    if (message.location) {
+      simple.location = {
+        latitude: Number(message.location.latitude),
+        longitude: Number(message.location.longitude),
+        name: message.location.name,
+        address: message.location.address,
+        url: message.location.url,
+      };
+    }
+    if (message.vCards?.length) {
+      simple.vCards = message.vCards;
+      simple.contacts = message.vCards.map(parseVCard);
+    }
+    if (message.links?.length) simple.links = message.links;
+    if (message.type === 'poll_creation') {
+      simple.poll = {
+        question: message.pollName,
+        // Typed as strings; WhatsApp Web hands over { name, localId } objects
+        options: ((message.pollOptions ?? []) as Array<string | { name: string }>).map((option) =>
+          typeof option === 'string' ? option : option.name,
+        ),
+        allowMultipleAnswers: !!message.allowMultipleAnswers,
+        votes: [],
+        totalVoters: 0,
+      };
+      const voters = [...(this.pollVotes.get(simple.id) ?? new Map<string, string[]>()).entries()];
+      simple.poll.votes = simple.poll.options.map((option) => {
+        const optionVoters = voters.filter(([, selected]) => selected.includes(option)).map(([voter]) => voter);
+        return { option, count: optionVoters.length, voters: optionVoters };
+      });
+      simple.poll.totalVoters = voters.filter(([, selected]) => selected.length > 0).length;
+    }
+    if (message.latestEditSenderTimestampMs) {
+      simple.editedAt = Math.floor(message.latestEditSenderTimestampMs / 1000);
+    }
+    if (message.type === 'revoked') simple.isRevoked = true;
+    if (message.duration) simple.duration = Number(message.duration);
+    if (message.hasMedia) {
+      simple.media = { mimetype: data.mimetype, filename: data.filename, size: data.size };
+    }
+    return simple;
   }
   
   /**
@@ -913,6 +1896,114 @@ export class WhatsAppService {
   }
 }
 
+const GROUP_INVITE_URL = 'https://chat.whatsapp.com/';
+
+/** Participant changes report HTTP-like status codes; anything but 2xx is a failure. */
+function assertGroupStatus(result: { status: number } | undefined, action: string): void {
+  if (result && typeof result.status === 'number' && (result.status < 200 || result.status >= 300)) {
+    throw new Error(`Could not ${action} (WhatsApp status ${result.status}): admin rights are probably required.`);
+  }
+}
+
+// How long cached contact names are trusted, and how often an unknown
+// author may trigger a refresh of them
+const CONTACT_NAMES_TTL_MS = 10 * 60_000;
+const CONTACT_NAMES_REFRESH_MS = 60_000;
+
+// Upper bound on the history one getMessages() (past its cursor) or getMessageContext() call loads
+const MAX_HISTORY_FETCH = 5_000;
+
+/** Where a message sits in a chat's history: by timestamp, then by ID. */
+interface HistoryPosition {
+  id: string;
+  timestamp: number;
+}
+
+function comparePositions(a: HistoryPosition, b: HistoryPosition): number {
+  return a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/** Opaque paging cursor: the position of the oldest message of the previous page. */
+function encodeMessageCursor({ id, timestamp }: HistoryPosition): string {
+  return Buffer.from(JSON.stringify({ id, timestamp })).toString('base64url');
+}
+
+function decodeMessageCursor(cursor: string): HistoryPosition {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded?.id === 'string' && typeof decoded?.timestamp === 'number') {
+      return decoded;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor: pass the nextCursor value of a previous list_messages result unchanged.');
+}
+
+/** The code of an invite link (https://chat.whatsapp.com/<code>) or of a bare code. */
+function inviteCodeOf(inviteLinkOrCode: string): string {
+  const code = inviteLinkOrCode.trim().replace(/^(https?:\/\/)?chat\.whatsapp\.com\//i, '');
+  if (!/^[A-Za-z0-9]{10,40}$/.test(code)) {
+    throw new Error(`Invalid invite link or code '${inviteLinkOrCode}'.`);
+  }
+  return code;
+}
+
+/** The items `keep` resolves true for, checked concurrently. */
+async function filterAsync<T>(items: T[], keep: (item: T) => Promise<boolean>): Promise<T[]> {
+  const kept = await Promise.all(items.map(keep));
+  return items.filter((_, index) => kept[index]);
+}
+
+/**
+ * JID of the chat a message belongs to. `from` is the chat for incoming
+ * messages and `to` for outgoing ones; `id.remote` is authoritative when set.
+ */
+export function chatIdOf(message: WAWebJS.Message): string {
+  return message.id?.remote || (message.fromMe ? message.to : message.from);
+}
+
+/**
+ * Raw WhatsApp Web message fields the whatsapp-web.js Message does not
+ * surface. Read only through rawDataOf(), the one place that touches the
+ * private `_data` model, so a whatsapp-web.js upgrade that moves it breaks
+ * one function (and its tests) rather than silently emptying fields.
+ */
+interface RawMessageData {
+  mimetype?: string;
+  filename?: string;
+  size?: number;
+  quotedMsg?: { body?: string; caption?: string; type?: string };
+  quotedStanzaID?: string;
+  quotedRemoteJid?: string;
+  quotedParticipant?: string | { _serialized?: string };
+}
+
+function rawDataOf(message: WAWebJS.Message): RawMessageData {
+  return (message as { _data?: RawMessageData })._data ?? {};
+}
+
+/** A JID that may arrive as a string or as a serialized Wid object. */
+function wid(value: string | { _serialized?: string } | undefined): string | undefined {
+  return typeof value === 'string' ? value : value?._serialized;
+}
+
+/**
+ * Serialized ID of the message a reply quotes, rebuilt from the raw quote
+ * context (stanza ID, chat, quoted sender) that WhatsApp Web attaches to the
+ * reply. Undefined when the context is missing, e.g. for quotes of messages
+ * from status updates.
+ */
+export function quotedMessageIdOf(message: WAWebJS.Message, ownJid: string | undefined): string | undefined {
+  const data = rawDataOf(message);
+  if (!data.quotedStanzaID) return undefined;
+  const remote = data.quotedRemoteJid || chatIdOf(message);
+  const participant = wid(data.quotedParticipant);
+  const fromMe = !!participant && participant === ownJid;
+  const suffix = remote.endsWith('@g.us') && participant ? `_${participant}` : '';
+  return `${fromMe}_${remote}_${data.quotedStanzaID}${suffix}`;
+}
+
 /**
  * Resolve with the promise, or reject once the timeout elapses - whichever
  * comes first. The underlying operation is not cancelled; callers use this to
@@ -0,0 +1,94 @@
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { AccountRegistry } from '../services/accounts.js';
+import { log } from '../utils/logger.js';
+import { ToolHandler } from './hooks.js';
+
+// Tools about the accounts themselves, which take no account parameter
+const ACCOUNT_AGNOSTIC = new Set(['list_accounts']);
+
+/**
+ * With more than one account, give every tool registered after this call
+ * an optional `account` parameter and run it on that account. The tool's
+ * own handler is wrapped as well as the handler left by earlier hooks, so
+ * the guards run in the call's account and so do drafts approved later.
+ * Install it after the guards and before registerOnly.
+ */
+export function registerAccountParam(server: McpServer, accounts: AccountRegistry): void {
+  const names = accounts.names as [string, ...string[]];
+  const param = z
+    .enum(names)
+    .optional()
+    .describe(`WhatsApp account to use (${names.join(', ')}); defaults to ${names[0]}`);
+  // With one account there is nothing to choose, but drafts may still name an OAuth principal's account
+  wrapAccountTools(server, accounts, names.length < 2 ? {} : { param });
+}
+
+/**
+ * Run every tool registered after this call on one account (an OAuth
+ * principal's), which the client can neither see nor change. The account
+ * is added to the arguments, so drafts are approved on it as well.
+ * Install it where registerAccountParam would go.
+ */
+export function registerAccountBinding(server: McpServer, accounts: AccountRegistry, account: string): void {
+  wrapAccountTools(server, accounts, { account });
+}
+
+/**
+ * Run the tools registered from now on in the account their arguments name.
+ * The handler left by earlier hooks is wrapped too when there is a `param`
+ * to choose the account or a fixed `account` to add to the arguments.
+ */
+function wrapAccountTools(
+  server: McpServer,
+  accounts: AccountRegistry,
+  { param, account }: { param?: z.ZodType; account?: string },
+): void {
+  const inAccount = (run: ToolHandler): ToolHandler => (args, extra) =>
+    accounts.run(args.account as string | undefined, () => run(args, extra));
+
+  const registerTool = server.tool.bind(server) as (...args: unknown[]) => RegisteredTool | undefined;
+  (server as { tool: unknown }).tool = (...args: unknown[]): RegisteredTool | undefined => {
+    const shapeIndex = args.length - 2;
+    const shape = args[shapeIndex];
+    // Tools without parameters (ping) act on no account
+    if (ACCOUNT_AGNOSTIC.has(args[0] as string) || shapeIndex < 1 || typeof shape !== 'object' || shape === null) {
+      return registerTool(...args);
+    }
+    if (param) args[shapeIndex] = { ...shape, account: param };
+    args[args.length - 1] = inAccount(args[args.length - 1] as ToolHandler);
+    const registered = registerTool(...args);
+    if (registered && (param || account)) {
+      const handler = inAccount(registered.handler as unknown as ToolHandler);
+      const callback: ToolHandler = (callArgs, extra) => handler(account ? { ...callArgs, account } : callArgs, extra);
+      registered.update({ callback: callback as never });
+    }
+    return registered;
+  };
+}
+
+/** Register list_accounts, which shows the configured accounts and their state. */
+export function registerAccountTools(server: McpServer, accounts: AccountRegistry): void {
+  log.info('Registering account tools...');
+
+  server.tool(
+    'list_accounts',
+    'List the configured WhatsApp accounts, whether each is authenticated, and which one tools use by default. Pass an account name as the `account` parameter of other tools to act on it.',
+    {},
+    async (): Promise<CallToolResult> => {
+      const result = accounts.all().map((account) => ({
+        name: account.name,
+        default: account === accounts.primary,
+        authenticated: account.whatsapp.isAuthenticated(),
+        awaitingQrScan: !account.whatsapp.isAuthenticated() && account.whatsapp.getLatestQrCode() !== null,
+        browserPids: account.browserProcessManager.accountProcesses().map((entry) => entry.pid),
+      }));
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    },
+  );
+
+  log.info('Account tools registered.');
+}
@@ -0,0 +1,180 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { isPrincipalAccount } from '../services/accounts.js';
+import { Draft, DraftStore } from '../services/drafts.js';
+import type { AccessPolicy } from '../services/policy.js';
+import { log } from '../utils/logger.js';
+import { filterToolResult } from './guard.js';
+import { onToolRegistered, ToolHandler, WRITE_TOOLS } from './hooks.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const DRAFT_STATUSES = ['pending', 'approved', 'rejected', 'failed', 'all'] as const;
+
+// How long the client's approval prompt may stay open before the draft is left pending
+const PROMPT_TIMEOUT_MS = 5 * 60_000;
+
+export interface ApprovalOptions {
+  /** Write tools create drafts instead of acting. */
+  requireApproval: boolean;
+  /**
+   * An OAuth principal's session: list_pending_drafts shows only that
+   * account's drafts. Other sessions never see principals' drafts.
+   */
+  account?: string;
+  /** Whether the review page is served, so drafts can be decided after the call. */
+  reviewPage: boolean;
+  /** Register this server's write tools as the draft store's executors (one server per process). */
+  executors?: boolean;
+  /** list_pending_drafts leaves out drafts for chats this policy does not let the agent read. */
+  policy?: AccessPolicy | null;
+}
+
+/**
+ * Human-in-the-loop approval. Must be registered before the other tools:
+ * with `executors`, every write tool registered afterwards becomes the
+ * draft store's executor for that tool, and with `requireApproval` its
+ * calls become drafts instead of running. The MCP client is asked to
+ * approve each draft right away (form elicitation) when it supports that;
+ * otherwise, or when the prompt is dismissed, the draft waits for the review
+ * page (/drafts on the HTTP port). Without a review page, calls from clients
+ * that cannot prompt are refused and dismissed prompts reject the draft. The
+ * agent itself has no way to approve a draft.
+ */
+export function registerApprovalTools(server: McpServer, drafts: DraftStore, options: ApprovalOptions): void {
+  const { requireApproval, account, reviewPage } = options;
+  log.info(`Registering approval tools (approval ${requireApproval ? 'required' : 'not required'})...`);
+
+  onToolRegistered(server, (name, registered) => {
+    if (!WRITE_TOOLS.has(name)) return;
+    const run = registered.handler as unknown as ToolHandler;
+    if (options.executors) drafts.setExecutor(name, (args) => run(args, {}));
+    if (!requireApproval) return;
+    const callback: ToolHandler = async (args) => {
+      if (!reviewPage && !server.server.getClientCapabilities()?.elicitation) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `${name} needs approval, but this client cannot show approval prompts and no draft review page is ` +
+                'running (it is served on the HTTP port, e.g. MCP_HTTP_PORT). Nothing was sent.',
+            },
+          ],
+          isError: true,
+        };
+      }
+      const draft = drafts.create(name, args);
+      try {
+        return (await reviewInClient(draft)) ?? (reviewPage ? pendingResult(draft) : dismissedResult(draft));
+      } catch (error: any) {
+        log.error(`Error reviewing draft ${draft.id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error reviewing draft ${draft.id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    };
+    registered.update({ callback: callback as never });
+  });
+
+  /** Ask the user in the MCP client; null when the client cannot or did not decide. */
+  const reviewInClient = async (draft: Draft): Promise<CallToolResult | null> => {
+    if (!server.server.getClientCapabilities()?.elicitation) return null;
+    let answer;
+    try {
+      answer = await server.server.elicitInput(
+        {
+          message: `Approve this WhatsApp action?\n\n${draft.summary}\n\n${JSON.stringify(draft.args, null, 2)}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              decision: { type: 'string', title: 'Decision', enum: ['approve', 'reject'] },
+              note: { type: 'string', title: 'Note (optional)' },
+            },
+            required: ['decision'],
+          },
+        },
+        { timeout: PROMPT_TIMEOUT_MS },
+      );
+    } catch (error) {
+      log.debug(`Approval prompt for draft ${draft.id} failed; leaving it pending:`, error);
+      return null;
+    }
+    if (answer.action === 'cancel') return null;
+    const note = typeof answer.content?.note === 'string' ? answer.content.note : undefined;
+    if (answer.action === 'accept' && answer.content?.decision === 'approve') {
+      return (await drafts.approve(draft.id, 'elicitation', note)).result;
+    }
+    drafts.reject(draft.id, 'elicitation', note);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `The user rejected ${draft.tool}; nothing was sent.${note ? ` Note: ${note}` : ''} (draft ${draft.id})`,
+        },
+      ],
+      isError: true,
+    };
+  };
+
+  /** Without a review page, a draft the prompt did not decide could never be decided. */
+  const dismissedResult = (draft: Draft): CallToolResult => {
+    drafts.reject(draft.id, 'elicitation', 'Approval prompt dismissed');
+    return {
+      content: [
+        { type: 'text', text: `The approval prompt was dismissed, so ${draft.tool} was not run. (draft ${draft.id})` },
+      ],
+      isError: true,
+    };
+  };
+
+  server.tool(
+    'list_pending_drafts',
+    'List WhatsApp actions waiting for human approval. In approval mode, send_message and the other write tools create a draft instead of acting; a person approves or rejects it in the MCP client or on the review page. Use this to check whether a draft was approved (and what the tool returned) or rejected.',
+    {
+      status: z.enum(DRAFT_STATUSES).optional().default('pending').describe('Which drafts to list (default: pending)'),
+    },
+    async ({ status }): Promise<CallToolResult> => {
+      const result: CallToolResult = {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                approvalRequired: requireApproval,
+                drafts: drafts
+                  .list(status === 'all' ? undefined : status)
+                  .filter((draft) =>
+                    account === undefined
+                      ? !isPrincipalAccount(String(draft.args.account ?? ''))
+                      : draft.args.account === account,
+                  ),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+      // Registered before the policy guard, so it applies the read policy itself
+      return options.policy ? filterToolResult(options.policy, 'list_pending_drafts', result) : result;
+    },
+  );
+
+  log.info('Approval tools registered.');
+}
+
+function pendingResult(draft: Draft): CallToolResult {
+  const result = {
+    success: false,
+    status: 'pending_approval',
+    draftId: draft.id,
+    summary: draft.summary,
+    message:
+      'Not sent yet: approval mode is on and this action was saved as a draft. A person has to approve it on the ' +
+      'draft review page; check its status with list_pending_drafts.',
+  };
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+  };
+}
@@ -9,10 +9,12 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
  * Register authentication-related tools with the MCP server
  * @param server The MCP server instance
  * @param whatsappService The WhatsApp service instance
+ * @param readOnly Whether the server runs in read-only mode (reported by check_auth_status)
  */
 export function registerAuthTools(
   server: McpServer,
   whatsappService: WhatsAppService,
+  readOnly = false,
 ): void {
   log.info('Registering authentication tools...');
 
@@ -45,7 +47,7 @@ export function registerAuthTools(
     'Check if the WhatsApp client is authenticated and connected',
     {},
     async (): Promise<CallToolResult> => {
-      return await checkAuthStatus(whatsappService);
+      return await checkAuthStatus(whatsappService, readOnly);
     }
   );
 
@@ -171,10 +173,12 @@ async function logoutFromWhatsApp(
 /**
  * Tool to check the authentication status of the WhatsApp client
  * @param whatsappService The WhatsApp service instance
+ * @param readOnly Whether the server runs in read-only mode
  * @returns A promise that resolves to the tool result containing the authentication status
  */
 async function checkAuthStatus(
-  whatsappService: WhatsAppService
+  whatsappService: WhatsAppService,
+  readOnly: boolean
 ): Promise<CallToolResult> {
   try {
     // On a freshly started server the client may still be restoring its
@@ -189,7 +193,9 @@ async function checkAuthStatus(
 
     let text: string;
     if (isAuthenticated) {
-      text = 'You are currently authenticated with WhatsApp and ready to use all features.';
+      text = readOnly
+        ? 'You are currently authenticated with WhatsApp and ready to use the read-only tools.'
+        : 'You are currently authenticated with WhatsApp and ready to use all features.';
     } else if (pairingCode) {
       text =
         `You are not currently authenticated with WhatsApp. An active pairing code is available: ${pairingCode}\n` +
@@ -200,6 +206,10 @@ async function checkAuthStatus(
         'You are not currently authenticated with WhatsApp. Please use the get_qr_code tool (or request_pairing_code) to authenticate.';
     }
 
+    if (readOnly) {
+      text += '\nMode: read-only (WHATSAPP_READ_ONLY) - tools that send, change or delete anything are not available.';
+    }
+
     return {
       content: [{ type: 'text', text }],
       isError: false
@@ -0,0 +1,189 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { WhatsAppService } from '../services/whatsapp.js';
+import { log } from '../utils/logger.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const groupJid = z.string().describe('The JID of the group (e.g., 123456789-12345678@g.us)');
+const participantJids = z
+  .array(z.string())
+  .min(1)
+  .describe('JIDs of the participants (e.g., ["123456789@c.us"])');
+
+/**
+ * Run a group operation and shape the outcome like the other tools do: the
+ * JSON-serialized result, or an isError text naming the failed action.
+ */
+async function groupToolResult(action: string, run: () => Promise<unknown>): Promise<CallToolResult> {
+  try {
+    const result = await run();
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  } catch (error: any) {
+    log.error(`Error in group tool (${action}):`, error);
+    return {
+      content: [{ type: 'text', text: `Error trying to ${action}: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+export function registerGroupTools(
+  server: McpServer,
+  whatsappService: WhatsAppService,
+): void {
+  log.info('Registering group tools...');
+
+  server.tool(
+    'create_group',
+    'Create a new WhatsApp group with the given participants.',
+    {
+      title: z.string().min(1).describe('The group subject (name)'),
+      participants: participantJids,
+    },
+    async ({ title, participants }): Promise<CallToolResult> =>
+      groupToolResult(`create group '${title}'`, async () => ({
+        success: true,
+        ...(await whatsappService.createGroup(title, participants)),
+      })),
+  );
+
+  server.tool(
+    'get_group_info',
+    'Get WhatsApp group details: subject, description, owner, settings and the participants with their admin flags.',
+    { group_jid: groupJid },
+    async ({ group_jid }): Promise<CallToolResult> =>
+      groupToolResult(`get info of group ${group_jid}`, () => whatsappService.getGroupInfo(group_jid)),
+  );
+
+  server.tool(
+    'add_group_participants',
+    'Add participants to a WhatsApp group (requires admin rights). Returns the outcome per participant; people who do not allow being added receive an invite instead.',
+    { group_jid: groupJid, participants: participantJids },
+    async ({ group_jid, participants }): Promise<CallToolResult> =>
+      groupToolResult(`add participants to group ${group_jid}`, async () => ({
+        success: true,
+        results: await whatsappService.addGroupParticipants(group_jid, participants),
+      })),
+  );
+
+  server.tool(
+    'remove_group_participants',
+    'Remove participants from a WhatsApp group (requires admin rights).',
+    { group_jid: groupJid, participants: participantJids },
+    async ({ group_jid, participants }): Promise<CallToolResult> =>
+      groupToolResult(`remove participants from group ${group_jid}`, async () => {
+        await whatsappService.removeGroupParticipants(group_jid, participants);
+        return { success: true, removed: participants };
+      }),
+  );
+
+  server.tool(
+    'promote_group_participants',
+    'Make participants of a WhatsApp group admins (requires admin rights).',
+    { group_jid: groupJid, participants: participantJids },
+    async ({ group_jid, participants }): Promise<CallToolResult> =>
+      groupToolResult(`promote participants in group ${group_jid}`, async () => {
+        await whatsappService.promoteGroupParticipants(group_jid, participants);
+        return { success: true, promoted: participants };
+      }),
+  );
+
+  server.tool(
+    'demote_group_participants',
+    'Revoke admin rights of participants of a WhatsApp group (requires admin rights).',
+    { group_jid: groupJid, participants: participantJids },
+    async ({ group_jid, participants }): Promise<CallToolResult> =>
+      groupToolResult(`demote participants in group ${group_jid}`, async () => {
+        await whatsappService.demoteGroupParticipants(group_jid, participants);
+        return { success: true, demoted: participants };
+      }),
+  );
+
+  server.tool(
+    'set_group_subject',
+    'Change the subject (name) of a WhatsApp group.',
+    { group_jid: groupJid, subject: z.string().min(1).describe('The new group subject') },
+    async ({ group_jid, subject }): Promise<CallToolResult> =>
+      groupToolResult(`change the subject of group ${group_jid}`, async () => {
+        await whatsappService.setGroupSubject(group_jid, subject);
+        return { success: true, subject };
+      }),
+  );
+
+  server.tool(
+    'set_group_description',
+    'Change the description of a WhatsApp group.',
+    { group_jid: groupJid, description: z.string().describe('The new group description (empty to clear it)') },
+    async ({ group_jid, description }): Promise<CallToolResult> =>
+      groupToolResult(`change the description of group ${group_jid}`, async () => {
+        await whatsappService.setGroupDescription(group_jid, description);
+        return { success: true, description };
+      }),
+  );
+
+  server.tool(
+    'update_group_settings',
+    'Change who may send messages, edit the group info or add members in a WhatsApp group (requires admin rights). Settings that are omitted stay unchanged.',
+    {
+      group_jid: groupJid,
+      messages_admins_only: z.boolean().optional().describe('Only admins can send messages'),
+      info_admins_only: z.boolean().optional().describe('Only admins can edit the subject, description and picture'),
+      add_members_admins_only: z.boolean().optional().describe('Only admins can add members'),
+    },
+    async ({ group_jid, messages_admins_only, info_admins_only, add_members_admins_only }): Promise<CallToolResult> =>
+      groupToolResult(`update settings of group ${group_jid}`, () =>
+        whatsappService.updateGroupSettings(group_jid, {
+          messagesAdminsOnly: messages_admins_only,
+          infoAdminsOnly: info_admins_only,
+          addMembersAdminsOnly: add_members_admins_only,
+        }),
+      ),
+  );
+
+  server.tool(
+    'get_group_invite_link',
+    'Get the invite link of a WhatsApp group (requires admin rights).',
+    { group_jid: groupJid },
+    async ({ group_jid }): Promise<CallToolResult> =>
+      groupToolResult(`get the invite link of group ${group_jid}`, async () => ({
+        inviteLink: await whatsappService.getGroupInviteLink(group_jid),
+      })),
+  );
+
+  server.tool(
+    'revoke_group_invite_link',
+    'Invalidate the current invite link of a WhatsApp group and return the new one (requires admin rights).',
+    { group_jid: groupJid },
+    async ({ group_jid }): Promise<CallToolResult> =>
+      groupToolResult(`revoke the invite link of group ${group_jid}`, async () => ({
+        success: true,
+        inviteLink: await whatsappService.revokeGroupInviteLink(group_jid),
+      })),
+  );
+
+  server.tool(
+    'join_group_by_invite',
+    'Join a WhatsApp group using an invite link (https://chat.whatsapp.com/...) or invite code.',
+    { invite: z.string().describe('The invite link or code') },
+    async ({ invite }): Promise<CallToolResult> =>
+      groupToolResult('join group by invite', async () => ({
+        success: true,
+        groupJid: await whatsappService.joinGroupByInvite(invite),
+      })),
+  );
+
+  server.tool(
+    'leave_group',
+    'Leave a WhatsApp group.',
+    { group_jid: groupJid },
+    async ({ group_jid }): Promise<CallToolResult> =>
+      groupToolResult(`leave group ${group_jid}`, async () => {
+        await whatsappService.leaveGroup(group_jid);
+        return { success: true, left: group_jid };
+      }),
+  );
+
+  log.info('Group tools registered.');
+}
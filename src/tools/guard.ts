@@ -0,0 +1,124 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Draft } from '../services/drafts.js';
+import { AccessPolicy, chatIdOfMessageId, PolicyAccess } from '../services/policy.js';
+import type { WhatsAppService } from '../services/whatsapp.js';
+import { log } from '../utils/logger.js';
+import { onToolRegistered, ToolHandler, WRITE_TOOLS } from './hooks.js';
+
+// Tools whose `participants` are contacted (added to a group), not just managed
+const CONTACTING_PARTICIPANTS = new Set(['create_group', 'add_group_participants']);
+
+/** Narrows a tool's JSON output (as the tool wrote it) to what the read policy allows. */
+type ResultFilter = (policy: AccessPolicy, output: unknown) => Promise<unknown>;
+
+const resultFilter =
+  <T>(filter: (policy: AccessPolicy, output: T) => Promise<T>): ResultFilter =>
+  (policy, output) =>
+    filter(policy, output as T);
+
+/**
+ * Tools that read across chats without naming one and cannot be told the
+ * policy: their JSON output is filtered down to the chats the read policy
+ * allows. (search_messages applies the policy itself, before paging.)
+ * list_pending_drafts is registered before the guard and applies its filter
+ * through filterToolResult.
+ */
+const RESULT_FILTERS: Partial<Record<string, ResultFilter>> = {
+  list_chats: resultFilter<Array<{ id: string }>>((policy, chats) => policy.filterReadable(chats, (chat) => chat.id)),
+  list_scheduled_messages: resultFilter<Array<{ recipientJid: string }>>((policy, jobs) =>
+    policy.filterReadable(jobs, (job) => job.recipientJid),
+  ),
+  list_pending_drafts: resultFilter<{ drafts: Draft[] }>(async (policy, output) => {
+    if (!policy.restricts('read')) return output;
+    const readable = await Promise.all(output.drafts.map((draft) => readsAllowed(policy, targetsOf(draft.tool, 'read', draft.args))));
+    return { ...output, drafts: output.drafts.filter((_, index) => readable[index]) };
+  }),
+};
+
+/** Narrow `name`'s result to what the read policy allows, if the tool lists chats it does not name. */
+export async function filterToolResult(policy: AccessPolicy, name: string, result: CallToolResult): Promise<CallToolResult> {
+  const filter = RESULT_FILTERS[name];
+  return filter && !result.isError ? filterResult(policy, result, filter) : result;
+}
+
+/**
+ * Enforce the access policy for every tool registered after this call: the
+ * chats a call names (recipients, chat and group JIDs, the chat a message ID
+ * belongs to) are checked before the tool runs, and cross-chat listings are
+ * filtered afterwards. Write tools need write access, everything else read
+ * access; joining by invite needs write access to the group the invite leads
+ * to, which `whatsapp` looks up. Install it after registerApprovalTools, so
+ * blocked calls are refused before they become drafts.
+ */
+export function registerPolicyGuard(
+  server: McpServer,
+  policy: AccessPolicy,
+  whatsapp: Pick<WhatsAppService, 'getInviteGroupId'>,
+): void {
+  onToolRegistered(server, (name, registered) => {
+    if (!registered.inputSchema) return; // Tools without parameters name no chat
+    const run = registered.handler as unknown as ToolHandler;
+    const access: PolicyAccess = WRITE_TOOLS.has(name) ? 'write' : 'read';
+    const callback: ToolHandler = async (args, extra) => {
+      try {
+        const targets = targetsOf(name, access, args);
+        if (typeof args.invite === 'string' && policy.restricts('write')) {
+          targets.push(['write', await whatsapp.getInviteGroupId(args.invite)]);
+        }
+        for (const [targetAccess, jid] of targets) {
+          if (jid === null) {
+            if (policy.restricts(targetAccess)) {
+              throw new Error(`Blocked by policy: cannot tell which chat message ${String(args.message_id)} belongs to.`);
+            }
+            continue;
+          }
+          await policy.check(targetAccess, jid);
+        }
+      } catch (error: any) {
+        log.warn(`Policy blocked ${name}: ${error.message}`);
+        return { content: [{ type: 'text', text: error.message }], isError: true };
+      }
+      return filterToolResult(policy, name, await run(args, extra));
+    };
+    registered.update({ callback: callback as never });
+  });
+}
+
+/** The chats a tool call touches; null stands for a message ID whose chat cannot be told. */
+function targetsOf(name: string, access: PolicyAccess, args: Record<string, unknown>): Array<[PolicyAccess, string | null]> {
+  const targets: Array<[PolicyAccess, string | null]> = [];
+  for (const key of ['recipient_jid', 'group_jid', 'chat_id', 'jid']) {
+    if (typeof args[key] === 'string') targets.push([access, args[key] as string]);
+  }
+  for (const jid of stringList(args.chat_ids)) targets.push([access, jid]);
+  if (CONTACTING_PARTICIPANTS.has(name)) {
+    for (const jid of stringList(args.participants)) targets.push(['write', jid]);
+  }
+  if (typeof args.message_id === 'string') {
+    // Forwarding reads the original message; other write tools act on its chat
+    targets.push([name === 'forward_message' ? 'read' : access, chatIdOfMessageId(args.message_id)]);
+  }
+  if (typeof args.phone_number === 'string') {
+    targets.push(['read', `${args.phone_number.replace(/\D/g, '')}@c.us`]);
+  }
+  return targets;
+}
+
+/** Whether every chat in `targets` may be read; a chat that cannot be told counts as unreadable under a read policy. */
+async function readsAllowed(policy: AccessPolicy, targets: Array<[PolicyAccess, string | null]>): Promise<boolean> {
+  for (const [, jid] of targets) {
+    if (jid === null ? policy.restricts('read') : !(await policy.allows('read', jid))) return false;
+  }
+  return true;
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+async function filterResult(policy: AccessPolicy, result: CallToolResult, filter: ResultFilter): Promise<CallToolResult> {
+  const [first] = result.content;
+  if (first?.type !== 'text') return result;
+  const filtered = await filter(policy, JSON.parse(first.text));
+  return { ...result, content: [{ type: 'text', text: JSON.stringify(filtered, null, 2) }] };
+}
@@ -0,0 +1,56 @@
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/** Handler of a tool with parameters, as stored on its RegisteredTool. */
+export type ToolHandler = (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>;
+
+/** Tools that send, change or delete something on WhatsApp. */
+export const WRITE_TOOLS = new Set([
+  'send_message', 'send_poll', 'vote_in_poll', 'send_location', 'send_contact_card',
+  'send_media', 'send_sticker', 'schedule_message',
+  'react_to_message', 'edit_message', 'delete_message', 'star_message', 'unstar_message', 'pin_message',
+  'forward_message',
+  'create_group', 'add_group_participants', 'remove_group_participants', 'promote_group_participants',
+  'demote_group_participants', 'set_group_subject', 'set_group_description', 'update_group_settings',
+  'revoke_group_invite_link', 'join_group_by_invite', 'leave_group',
+]);
+
+/**
+ * The only tools registered in read-only mode (WHATSAPP_READ_ONLY). An
+ * allowlist, so tools added later stay hidden until classified as reads.
+ */
+export const READ_ONLY_TOOLS = new Set([
+  'ping', 'get_qr_code', 'request_pairing_code', 'check_auth_status', 'list_accounts',
+  'list_chats', 'get_chat_by_id', 'get_direct_chat_by_contact_number', 'get_last_interaction',
+  'search_contacts', 'get_contact_by_id', 'get_group_info', 'get_group_invite_link',
+  'list_messages', 'search_messages', 'get_message_by_id', 'get_message_context', 'download_media',
+  'get_send_queue_status', 'list_scheduled_messages', 'list_pending_drafts',
+  'subscribe_to_messages', 'unsubscribe_from_messages',
+]);
+
+/**
+ * Call `hook` for every tool registered on `server` from now on, e.g. to
+ * replace its handler via `registered.update()`. McpServer has no
+ * registration hook, so this wraps tool() on the instance; hooks installed
+ * later see the handler as left by earlier ones, so the last one installed
+ * runs first when the tool is called.
+ */
+export function onToolRegistered(server: McpServer, hook: (name: string, registered: RegisteredTool) => void): void {
+  const registerTool = server.tool.bind(server) as (...args: unknown[]) => RegisteredTool;
+  (server as { tool: unknown }).tool = (...args: unknown[]): RegisteredTool => {
+    const registered = registerTool(...args);
+    hook(args[0] as string, registered);
+    return registered;
+  };
+}
+
+/**
+ * Silently skip registering every tool not in `allowed`, so it is neither
+ * listed nor callable. Install it last: tools it skips never reach hooks
+ * installed earlier (e.g. no draft executor exists for them).
+ */
+export function registerOnly(server: McpServer, allowed: Set<string>): void {
+  const registerTool = server.tool.bind(server) as (...args: unknown[]) => RegisteredTool;
+  (server as { tool: unknown }).tool = (...args: unknown[]): RegisteredTool | undefined =>
+    allowed.has(args[0] as string) ? registerTool(...args) : undefined;
+}
@@ -118,7 +118,7 @@ export function registerMediaTools(
               const media = inputType === 'base64'
                 ? new MessageMedia(mime_type!, mediaInput, filename)
                 : (inputType === 'path' ? MessageMedia.fromFilePath(mediaInput) : await MessageMedia.fromUrl(mediaInput, { unsafeMime: true })); // Corrected logic: check path or assume URL
-              sentMessage = await whatsappService.getClient().sendMessage(recipient_jid, media, { caption });
+              sentMessage = await whatsappService.sendMediaObject(recipient_jid, media, { caption });
               // Cleanup temp file if created from base64
               if (needsCleanup && tempFilePath && fs.existsSync(tempFilePath)) {
                  fs.unlinkSync(tempFilePath);
@@ -131,7 +131,7 @@ export function registerMediaTools(
 
           // Send the (potentially converted) ogg file as a voice note
           const media = MessageMedia.fromFilePath(audioPath);
-          sentMessage = await whatsappService.getClient().sendMessage(recipient_jid, media, { sendAudioAsVoice: true }); // Key option!
+          sentMessage = await whatsappService.sendMediaObject(recipient_jid, media, { sendAudioAsVoice: true }); // Key option!
 
           // Cleanup temp file if created
           if (needsCleanup && tempFilePath && fs.existsSync(tempFilePath)) {
@@ -203,6 +203,59 @@ export function registerMediaTools(
     },
   );
 
+  server.tool(
+    'send_sticker',
+    'Send an image or short video as a WhatsApp sticker. Non-WebP input is converted with ffmpeg (512x512; videos and GIFs become animated stickers, cut to 6 seconds).',
+    {
+      recipient_jid: z.string().describe('The recipient JID (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
+      media_path: z.string().optional().describe('Absolute path to the local image or video'),
+      media_url: z.string().url().optional().describe('URL of the image or video'),
+      media_content: z.string().optional().describe('Base64 encoded image or video'),
+      mime_type: z.string().optional().describe('MIME type of the media_content (detected when omitted)'),
+      sticker_name: z.string().optional().describe('Sticker pack name shown to the recipient'),
+      sticker_author: z.string().optional().describe('Sticker author shown to the recipient'),
+    },
+    async ({ recipient_jid, media_path, media_url, media_content, mime_type, sticker_name, sticker_author }): Promise<CallToolResult> => {
+      if ([media_path, media_url, media_content].filter(Boolean).length !== 1) {
+        return { content: [{ type: 'text', text: 'Exactly one of media_path, media_url, or media_content must be provided' }], isError: true };
+      }
+      try {
+        let media: WAWebJS.MessageMedia;
+        if (media_path) {
+          media = MessageMedia.fromFilePath(media_path);
+        } else if (media_url) {
+          media = await MessageMedia.fromUrl(media_url, { unsafeMime: true });
+        } else {
+          const detectedType = await fileTypeFromBuffer(Buffer.from(media_content!, 'base64'));
+          const mimeType = mime_type || detectedType?.mime;
+          if (!mimeType) {
+            return { content: [{ type: 'text', text: 'Could not detect the media type; pass mime_type' }], isError: true };
+          }
+          media = new MessageMedia(mimeType, media_content!);
+        }
+        const sentMessage = await whatsappService.sendSticker(recipient_jid, media, {
+          name: sticker_name,
+          author: sticker_author,
+        });
+        const result = {
+          success: true,
+          message: 'Sticker sent successfully.',
+          messageId: sentMessage.id._serialized,
+          timestamp: sentMessage.timestamp,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in send_sticker tool to ${recipient_jid}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error sending sticker to ${recipient_jid}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
   server.tool(
     'download_media',
     'Download media from a WhatsApp message and return its content.',
@@ -1,31 +1,50 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { WhatsAppService } from '../services/whatsapp.js'; // Removed unused SimpleMessage import
+import { AccessPolicy } from '../services/policy.js';
 import { log } from '../utils/logger.js';
+import { toUnixSeconds } from '../utils/time.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { Message as WWebMessage } from 'whatsapp-web.js'; // Alias to avoid naming conflict
 
+/**
+ * Message tools. search_messages leaves out chats the access `policy` does
+ * not let tools read, before its results are counted and paged.
+ */
 export function registerMessageTools(
   server: McpServer,
   whatsappService: WhatsAppService,
+  policy: AccessPolicy | null = null,
 ): void {
   log.info('Registering message tools...');
 
   server.tool(
     'list_messages',
-    'Get WhatsApp messages from a specific chat. This is the source of truth for actual message content: use it whenever the question is about what someone said/wrote. Entries include non-text events too (check the "type" field: "chat" = text message, "call_log" = call, "ptt" = voice note, "image"/"video" = media; non-text entries may have an empty "body").',
+    'Get WhatsApp messages from a specific chat, oldest first. This is the source of truth for actual message content: use it whenever the question is about what someone said/wrote. Entries include non-text events too (check the "type" field: "chat" = text message, "call_log" = call, "ptt" = voice note, "image"/"video" = media; non-text entries may have an empty "body"). In groups, "author"/"authorName" tell who sent each message ("from" is the group). Filter by time range, sender or type instead of fetching everything; when "hasMore" is true, pass "nextCursor" as cursor to page further back in history. While WhatsApp is disconnected the messages come from the local archive ("source": "archive") and recent history may be missing.',
     {
       chat_id: z.string().describe('The JID of the chat to retrieve messages from (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
       limit: z.number().int().positive().optional().default(50).describe('Maximum number of messages to return'),
-      // Note: whatsapp-web.js fetchMessages doesn't support date/sender/query filtering directly.
-      // Filtering would need to be done after fetching.
+      after: z.string().optional().describe('Only messages at or after this time: ISO 8601 (e.g. 2024-05-01 or 2024-05-01T09:00:00Z) or Unix seconds'),
+      before: z.string().optional().describe('Only messages at or before this time: ISO 8601 or Unix seconds'),
+      from: z.string().optional().describe('Only messages sent by this JID (in groups: the participant who wrote it)'),
+      types: z.array(z.string()).optional().describe('Only these message types (e.g. ["chat"], ["ptt"], ["image", "video"])'),
+      from_me: z.boolean().optional().describe('true: only messages you sent; false: only messages you received'),
+      cursor: z.string().optional().describe('The nextCursor of a previous list_messages result, to fetch the next older page'),
     },
-    async ({ chat_id, limit }): Promise<CallToolResult> => {
+    async ({ chat_id, limit, after, before, from, types, from_me, cursor }): Promise<CallToolResult> => {
       try {
-        const messages = await whatsappService.getMessages(chat_id, limit);
-        // Return the simplified message structure
+        const page = await whatsappService.getMessages(chat_id, {
+          limit,
+          after: after !== undefined ? toUnixSeconds(after, 'after') : undefined,
+          before: before !== undefined ? toUnixSeconds(before, 'before') : undefined,
+          from,
+          types,
+          fromMe: from_me,
+          cursor,
+        });
+        // Return the simplified message structure plus paging info
         return {
-          content: [{ type: 'text', text: JSON.stringify(messages, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify(page, null, 2) }],
         };
       } catch (error: any) {
         log.error(`Error in list_messages tool for chat ${chat_id}:`, error);
@@ -37,6 +56,44 @@ export function registerMessageTools(
     },
   );
 
+  server.tool(
+    'search_messages',
+    'Full-text search for WhatsApp messages across all chats (e.g. "where did someone mention the invoice number"). Every word of the query must appear in the message text. Results are ranked by relevance, then recency, and include the chat name. Searches the local message archive, so messages from before the server started are only found once they have been loaded (e.g. via list_messages).',
+    {
+      query: z.string().min(1).describe('Words to search for in message text (case-insensitive)'),
+      chat_id: z.string().optional().describe('Only search this chat (JID)'),
+      sender: z.string().optional().describe('Only messages from this sender JID (e.g., 123456789@c.us)'),
+      after: z.string().optional().describe('Only messages at or after this time: ISO 8601 (e.g. 2024-05-01 or 2024-05-01T09:00:00Z) or Unix seconds'),
+      before: z.string().optional().describe('Only messages at or before this time: ISO 8601 or Unix seconds'),
+      types: z.array(z.string()).optional().describe('Only these message types (e.g. ["chat"], ["image", "video"], ["ptt"])'),
+      limit: z.number().int().positive().max(100).optional().default(20).describe('Maximum number of results to return'),
+      offset: z.number().int().min(0).optional().default(0).describe('Number of results to skip (for paging)'),
+    },
+    async ({ query, chat_id, sender, after, before, types, limit, offset }): Promise<CallToolResult> => {
+      try {
+        const results = await whatsappService.searchMessages(query, {
+          chatId: chat_id,
+          sender,
+          after: after !== undefined ? toUnixSeconds(after, 'after') : undefined,
+          before: before !== undefined ? toUnixSeconds(before, 'before') : undefined,
+          types,
+          limit,
+          offset,
+          readable: policy?.restricts('read') ? (jid) => policy.allows('read', jid) : undefined,
+        });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in search_messages tool for query "${query}":`, error);
+        return {
+          content: [{ type: 'text', text: `Error searching messages: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
   server.tool(
     'get_message_by_id',
     'Get a specific WhatsApp message by its ID.',
@@ -65,42 +122,17 @@ export function registerMessageTools(
     }
   );
 
-  // get_message_context is complex with whatsapp-web.js as it requires fetching messages around a specific one.
-  // A simple implementation might fetch N messages before/after based on timestamp, but exact context is hard.
-  // Let's implement a version that fetches recent messages and identifies the target.
   server.tool(
     'get_message_context',
-    'Get recent messages around a specific message ID within its chat (context accuracy depends on fetch limit).',
+    'Get the messages immediately before and after a specific message in its chat (e.g. to understand what a reply refers to).',
     {
       message_id: z.string().describe('The serialized ID of the target message'),
-      limit: z.number().int().positive().optional().default(20).describe('Number of recent messages to fetch for context'),
+      before: z.number().int().min(0).optional().default(10).describe('Number of messages to return before the target'),
+      after: z.number().int().min(0).optional().default(10).describe('Number of messages to return after the target'),
     },
-    async ({ message_id, limit }): Promise<CallToolResult> => {
+    async ({ message_id, before, after }): Promise<CallToolResult> => {
       try {
-        // First, get the target message to find its chat ID
-        const targetMessage = await whatsappService.getMessageById(message_id);
-        if (!targetMessage) {
-          return {
-            content: [{ type: 'text', text: `Target message not found: ${message_id}` }],
-            isError: true,
-          };
-        }
-
-        // Fetch recent messages from the same chat
-        const recentMessages = await whatsappService.getMessages(targetMessage.to, limit);
-
-        // Find the index of the target message
-        const targetIndex = recentMessages.findIndex(msg => msg.id === message_id);
-
-        // Structure the context (this is approximate)
-        const context = {
-          targetMessage: targetMessage,
-          // Note: 'before' and 'after' here are just messages fetched chronologically,
-          // not necessarily the exact messages before/after in the full history.
-          contextMessages: recentMessages,
-          targetIndex: targetIndex, // Index within the fetched contextMessages array
-        };
-
+        const context = await whatsappService.getMessageContext(message_id, before, after);
         return {
           content: [{ type: 'text', text: JSON.stringify(context, null, 2) }],
         };
@@ -146,20 +178,36 @@ export function registerMessageTools(
 
   server.tool(
     'send_message',
-    'Send a WhatsApp text message to a person or group.',
+    'Send a WhatsApp text message to a person or group, optionally as a reply to an earlier message and with @mentions.',
     {
       recipient_jid: z.string().describe('The recipient JID (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
       message: z.string().describe('The message text to send'),
+      quoted_message_id: z
+        .string()
+        .optional()
+        .describe('ID of a message in the same chat to reply to (the sent message quotes it)'),
+      mentions: z
+        .array(z.string())
+        .optional()
+        .describe('JIDs to @mention (e.g., ["123456789@c.us"]); "@123456789" is prepended to the text for any mention it does not already contain'),
+      link_preview: z.boolean().optional().describe('Show a preview for the first link in the text (default: WhatsApp decides)'),
+      send_seen: z.boolean().optional().describe('Mark the chat as read when sending (default: true)'),
     },
-    async ({ recipient_jid, message }): Promise<CallToolResult> => {
+    async ({ recipient_jid, message, quoted_message_id, mentions, link_preview, send_seen }): Promise<CallToolResult> => {
       try {
-        const sentMessage: WWebMessage = await whatsappService.sendMessage(recipient_jid, message);
+        const sentMessage: WWebMessage = await whatsappService.sendMessage(recipient_jid, message, {
+          quotedMessageId: quoted_message_id,
+          mentions,
+          linkPreview: link_preview,
+          sendSeen: send_seen,
+        });
         // Return confirmation or details of the sent message
         const result = {
           success: true,
           message: 'Message sent successfully.',
           messageId: sentMessage.id._serialized,
           timestamp: sentMessage.timestamp,
+          ...(quoted_message_id ? { quotedMessageId: quoted_message_id } : {}),
         };
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
@@ -174,5 +222,316 @@ export function registerMessageTools(
     },
   );
 
+  server.tool(
+    'send_poll',
+    'Send a WhatsApp poll to a person or group. Votes arrive over time; read them with get_message_by_id (the "poll" field holds the options and current tallies).',
+    {
+      recipient_jid: z.string().describe('The recipient JID (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
+      question: z.string().min(1).describe('The poll question'),
+      options: z.array(z.string().min(1)).min(2).max(12).describe('The answer options (2 to 12, unique)'),
+      allow_multiple_answers: z.boolean().optional().default(false).describe('Let voters select more than one option'),
+    },
+    async ({ recipient_jid, question, options, allow_multiple_answers }): Promise<CallToolResult> => {
+      try {
+        const sentMessage: WWebMessage = await whatsappService.sendPoll(recipient_jid, question, options, allow_multiple_answers);
+        const result = {
+          success: true,
+          message: 'Poll sent successfully.',
+          messageId: sentMessage.id._serialized,
+          timestamp: sentMessage.timestamp,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in send_poll tool to ${recipient_jid}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error sending poll to ${recipient_jid}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'vote_in_poll',
+    'Vote on an existing WhatsApp poll by option name, replacing any earlier vote of this account. An empty list retracts the vote.',
+    {
+      message_id: z.string().describe('The ID of the poll message'),
+      options: z.array(z.string()).describe('Names of the options to select, exactly as listed in the poll'),
+    },
+    async ({ message_id, options }): Promise<CallToolResult> => {
+      try {
+        const poll = await whatsappService.voteInPoll(message_id, options);
+        const result = { success: true, messageId: message_id, selected: options, poll: poll.poll };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in vote_in_poll tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error voting in poll ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'send_location',
+    'Send a location pin to a person or group.',
+    {
+      recipient_jid: z.string().describe('The recipient JID (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
+      latitude: z.number().min(-90).max(90).describe('Latitude in decimal degrees'),
+      longitude: z.number().min(-180).max(180).describe('Longitude in decimal degrees'),
+      name: z.string().optional().describe('Name of the place'),
+      address: z.string().optional().describe('Address of the place'),
+      url: z.string().url().optional().describe('Link shown with the location'),
+    },
+    async ({ recipient_jid, latitude, longitude, name, address, url }): Promise<CallToolResult> => {
+      try {
+        const sentMessage: WWebMessage = await whatsappService.sendLocation(recipient_jid, latitude, longitude, {
+          name,
+          address,
+          url,
+        });
+        const result = {
+          success: true,
+          message: 'Location sent successfully.',
+          messageId: sentMessage.id._serialized,
+          timestamp: sentMessage.timestamp,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in send_location tool to ${recipient_jid}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error sending location to ${recipient_jid}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'send_contact_card',
+    'Share contact cards with a person or group: either WhatsApp contacts by JID, or a raw vCard.',
+    {
+      recipient_jid: z.string().describe('The recipient JID (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
+      contact_jids: z.array(z.string()).optional().describe('JIDs of the contacts to share (e.g., ["123456789@c.us"])'),
+      vcard: z.string().optional().describe('A raw vCard (BEGIN:VCARD ... END:VCARD), used instead of contact_jids'),
+    },
+    async ({ recipient_jid, contact_jids, vcard }): Promise<CallToolResult> => {
+      if (!!contact_jids?.length === !!vcard) {
+        return {
+          content: [{ type: 'text', text: 'Provide exactly one of contact_jids or vcard' }],
+          isError: true,
+        };
+      }
+      try {
+        const sentMessage: WWebMessage = vcard
+          ? await whatsappService.sendVCard(recipient_jid, vcard)
+          : await whatsappService.sendContactCards(recipient_jid, contact_jids!);
+        const result = {
+          success: true,
+          message: 'Contact card sent successfully.',
+          messageId: sentMessage.id._serialized,
+          timestamp: sentMessage.timestamp,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in send_contact_card tool to ${recipient_jid}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error sending contact card to ${recipient_jid}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'react_to_message',
+    'React to a WhatsApp message with an emoji, or remove this account\'s reaction.',
+    {
+      message_id: z.string().describe('The ID of the message'),
+      emoji: z.string().describe('The reaction emoji (e.g., "👍"); an empty string removes the reaction'),
+    },
+    async ({ message_id, emoji }): Promise<CallToolResult> => {
+      try {
+        await whatsappService.reactToMessage(message_id, emoji);
+        const result = { success: true, messageId: message_id, reaction: emoji || null };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in react_to_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error reacting to message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'edit_message',
+    'Edit the text of a message sent by this account. WhatsApp only allows edits within about 15 minutes of sending.',
+    {
+      message_id: z.string().describe('The ID of the message'),
+      new_text: z.string().min(1).describe('The new message text'),
+    },
+    async ({ message_id, new_text }): Promise<CallToolResult> => {
+      try {
+        const result = { success: true, message: await whatsappService.editMessage(message_id, new_text) };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in edit_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error editing message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'delete_message',
+    'Delete a WhatsApp message, either only for this account or for everyone in the chat (own messages, or any message when this account is a group admin).',
+    {
+      message_id: z.string().describe('The ID of the message'),
+      for_everyone: z.boolean().optional().default(false).describe('Delete for everyone instead of only for this account'),
+    },
+    async ({ message_id, for_everyone }): Promise<CallToolResult> => {
+      try {
+        await whatsappService.deleteMessage(message_id, for_everyone);
+        const result = { success: true, messageId: message_id, deletedFor: for_everyone ? 'everyone' : 'me' };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in delete_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error deleting message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'star_message',
+    'Star a WhatsApp message.',
+    {
+      message_id: z.string().describe('The ID of the message'),
+    },
+    async ({ message_id }): Promise<CallToolResult> => {
+      try {
+        await whatsappService.starMessage(message_id, true);
+        const result = { success: true, messageId: message_id, starred: true };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in star_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error starring message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'unstar_message',
+    'Remove the star from a WhatsApp message.',
+    {
+      message_id: z.string().describe('The ID of the message'),
+    },
+    async ({ message_id }): Promise<CallToolResult> => {
+      try {
+        await whatsappService.starMessage(message_id, false);
+        const result = { success: true, messageId: message_id, starred: false };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in unstar_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error unstarring message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'pin_message',
+    'Pin a WhatsApp message in its chat for 24 hours, 7 days or 30 days, or unpin it. In groups, only admins can pin other members\' messages.',
+    {
+      message_id: z.string().describe('The ID of the message'),
+      duration: z
+        .enum(['24h', '7d', '30d', 'unpin'])
+        .optional()
+        .default('7d')
+        .describe('How long the message stays pinned; "unpin" removes the pin'),
+    },
+    async ({ message_id, duration }): Promise<CallToolResult> => {
+      try {
+        await whatsappService.pinMessage(message_id, PIN_DURATIONS[duration]);
+        const result = { success: true, messageId: message_id, pinned: duration !== 'unpin', duration };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in pin_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error pinning message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'forward_message',
+    'Forward a WhatsApp message to one or more chats. Reports the outcome per chat.',
+    {
+      message_id: z.string().describe('The ID of the message'),
+      chat_ids: z.array(z.string()).min(1).describe('JIDs of the chats to forward to'),
+    },
+    async ({ message_id, chat_ids }): Promise<CallToolResult> => {
+      try {
+        const results = await whatsappService.forwardMessage(message_id, chat_ids);
+        const result = { success: results.every((r) => r.success), results };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in forward_message tool for ${message_id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error forwarding message ${message_id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'get_send_queue_status',
+    'Show the outbound rate limits (WHATSAPP_SEND_* settings), how many messages were sent in the last minute and 24 hours, how many remain under the daily cap, and how many sends are waiting in the queue.',
+    {},
+    async (): Promise<CallToolResult> => ({
+      content: [{ type: 'text', text: JSON.stringify(whatsappService.getSendQueueStatus(), null, 2) }],
+    }),
+  );
+
   log.info('Message tools registered.');
 }
+
+// Pin durations WhatsApp offers, in seconds
+const PIN_DURATIONS = { '24h': 86_400, '7d': 604_800, '30d': 2_592_000, unpin: 0 } as const;
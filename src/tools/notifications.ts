@@ -0,0 +1,129 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { MessageEvent, MessageEventKind, WhatsAppService } from '../services/whatsapp.js';
+import { AccessPolicy } from '../services/policy.js';
+import { hasScope } from '../auth/scopes.js';
+import { log } from '../utils/logger.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+const EVENT_KINDS = ['message', 'edit', 'revoke', 'ack', 'vote'] as const;
+
+interface Subscription {
+  chatIds: Set<string> | null; // null = all chats
+  kinds: Set<MessageEventKind>;
+  includeOwn: boolean;
+  unsubscribe: () => void;
+}
+
+/**
+ * Opt-in push of live WhatsApp activity to this MCP session as
+ * notifications/message (logger "whatsapp"), so agents can react to inbound
+ * messages instead of polling. Each McpServer (one per stdio connection /
+ * HTTP session) keeps its own subscription, dropped when the session closes.
+ * MCP_MESSAGE_NOTIFICATIONS=true subscribes every session to everything,
+ * except OAuth sessions (`authInfo`) without the messages:read scope.
+ * Events from chats the access policy does not let tools read are dropped.
+ * While subscribed, an OAuth principal's account is not closed as idle.
+ */
+export function registerNotificationTools(
+  server: McpServer,
+  whatsappService: WhatsAppService,
+  policy: AccessPolicy | null = null,
+  authInfo?: AuthInfo,
+): void {
+  log.info('Registering notification tools...');
+
+  let subscription: Subscription | null = null;
+
+  const forward = (event: MessageEvent): void => {
+    if (!subscription || !server.isConnected()) return;
+    if (subscription.chatIds && !subscription.chatIds.has(event.chatId)) return;
+    if (!subscription.kinds.has(event.kind)) return;
+    if (event.message.fromMe && event.kind === 'message' && !subscription.includeOwn) return;
+    const { kind, ...details } = event;
+    void (async () => {
+      if (policy && !(await policy.allows('read', event.chatId))) return;
+      await server.sendLoggingMessage({ level: 'info', logger: 'whatsapp', data: { event: kind, ...details } });
+    })().catch((error) => log.debug('Failed to forward WhatsApp event notification:', error));
+  };
+
+  const subscribe = (chatIds: string[] | undefined, kinds: MessageEventKind[], includeOwn: boolean): void => {
+    subscription?.unsubscribe();
+    subscription = {
+      chatIds: chatIds?.length ? new Set(chatIds) : null,
+      kinds: new Set(kinds),
+      includeOwn,
+      unsubscribe: whatsappService.onMessageEvent(forward),
+    };
+  };
+
+  const unsubscribe = (): boolean => {
+    if (!subscription) return false;
+    subscription.unsubscribe();
+    subscription = null;
+    return true;
+  };
+
+  // Stop forwarding once the session's transport is gone
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+
+  if (process.env.MCP_MESSAGE_NOTIFICATIONS === 'true' && hasScope(authInfo, 'messages:read')) {
+    subscribe(undefined, [...EVENT_KINDS], false);
+  }
+
+  server.tool(
+    'subscribe_to_messages',
+    'Subscribe this session to real-time WhatsApp activity. Matching events are pushed as MCP logging notifications (notifications/message, logger "whatsapp") whose data holds the event type ("message" = new message, "edit", "revoke" = deleted, "ack" = delivery/read status, "vote" = poll vote), the chat JID and the message. Replaces any previous subscription of this session.',
+    {
+      chat_ids: z.array(z.string()).optional().describe('Only notify about these chats (JIDs); omit for all chats'),
+      events: z
+        .array(z.enum(EVENT_KINDS))
+        .optional()
+        .default([...EVENT_KINDS])
+        .describe('Event types to receive'),
+      include_own_messages: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Also notify about new messages sent from this account'),
+    },
+    async ({ chat_ids, events, include_own_messages }): Promise<CallToolResult> => {
+      subscribe(chat_ids, events, include_own_messages);
+      log.info(`Session subscribed to WhatsApp events: ${events.join(', ')}`);
+      const result = {
+        success: true,
+        events,
+        chats: chat_ids?.length ? chat_ids : 'all',
+        includeOwnMessages: include_own_messages,
+        delivery: 'notifications/message (logger "whatsapp")',
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    },
+  );
+
+  server.tool(
+    'unsubscribe_from_messages',
+    'Stop real-time WhatsApp notifications for this session.',
+    {},
+    async (): Promise<CallToolResult> => {
+      const wasSubscribed = unsubscribe();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: wasSubscribed ? 'Unsubscribed from WhatsApp notifications.' : 'This session had no active subscription.',
+          },
+        ],
+      };
+    },
+  );
+
+  log.info('Notification tools registered.');
+}
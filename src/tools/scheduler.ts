@@ -0,0 +1,107 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { MessageScheduler } from '../services/scheduler.js';
+import { log } from '../utils/logger.js';
+import { toUnixSeconds } from '../utils/time.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const STATUSES = ['pending', 'sending', 'sent', 'failed', 'cancelled', 'skipped'] as const;
+
+export function registerSchedulerTools(
+  server: McpServer,
+  scheduler: MessageScheduler,
+): void {
+  log.info('Registering scheduler tools...');
+
+  server.tool(
+    'schedule_message',
+    'Schedule a WhatsApp text or media message to be sent later. Scheduled messages survive server restarts; if one came due while the server was down, the catch-up policy (WHATSAPP_SCHEDULE_CATCH_UP) decides whether it is still sent.',
+    {
+      recipient_jid: z.string().describe('The recipient JID (e.g., 123456789@c.us or 123456789-12345678@g.us)'),
+      message: z.string().optional().describe('The message text (or the caption when sending media)'),
+      media_path: z.string().optional().describe('Absolute path to a local media file to send instead of text'),
+      media_url: z.string().url().optional().describe('URL of a media file to send instead of text'),
+      send_at: z
+        .string()
+        .optional()
+        .describe('When to send: ISO 8601 with timezone (e.g. 2024-05-02T09:00:00+02:00) or Unix seconds'),
+      delay_minutes: z.number().positive().optional().describe('Send this many minutes from now (instead of send_at)'),
+    },
+    async ({ recipient_jid, message, media_path, media_url, send_at, delay_minutes }): Promise<CallToolResult> => {
+      try {
+        if ((send_at === undefined) === (delay_minutes === undefined)) {
+          throw new Error('Provide exactly one of send_at or delay_minutes.');
+        }
+        if (media_path && media_url) {
+          throw new Error('Provide at most one of media_path or media_url.');
+        }
+        const sendAt =
+          send_at !== undefined
+            ? toUnixSeconds(send_at, 'send_at')
+            : Math.floor(Date.now() / 1000 + delay_minutes! * 60);
+        if (sendAt < Date.now() / 1000 - 60) {
+          throw new Error(`send_at ${send_at} is in the past.`);
+        }
+        const mediaSource = media_path || media_url;
+        const job = scheduler.schedule({
+          recipientJid: recipient_jid,
+          text: mediaSource ? undefined : message,
+          media: mediaSource ? { source: mediaSource, caption: message } : undefined,
+          sendAt,
+        });
+        const result = { success: true, scheduled: job, sendAtIso: new Date(job.sendAt * 1000).toISOString() };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in schedule_message tool for ${recipient_jid}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error scheduling message to ${recipient_jid}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    'list_scheduled_messages',
+    'List scheduled WhatsApp messages ordered by send time, with their status (pending, sending, sent, failed, cancelled, skipped).',
+    {
+      status: z.enum(STATUSES).optional().describe('Only jobs with this status (default: all)'),
+      recipient_jid: z.string().optional().describe('Only jobs for this recipient'),
+    },
+    async ({ status, recipient_jid }): Promise<CallToolResult> => {
+      const jobs = scheduler.list({ status, recipientJid: recipient_jid }).map((job) => ({
+        ...job,
+        sendAtIso: new Date(job.sendAt * 1000).toISOString(),
+      }));
+      return {
+        content: [{ type: 'text', text: JSON.stringify(jobs, null, 2) }],
+      };
+    },
+  );
+
+  server.tool(
+    'cancel_scheduled_message',
+    'Cancel a pending scheduled WhatsApp message.',
+    {
+      id: z.string().describe('The ID of the scheduled message (from schedule_message or list_scheduled_messages)'),
+    },
+    async ({ id }): Promise<CallToolResult> => {
+      try {
+        const job = scheduler.cancel(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, cancelled: job }, null, 2) }],
+        };
+      } catch (error: any) {
+        log.error(`Error in cancel_scheduled_message tool for ${id}:`, error);
+        return {
+          content: [{ type: 'text', text: `Error cancelling scheduled message ${id}: ${error.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  log.info('Scheduler tools registered.');
+}
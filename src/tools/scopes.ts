@@ -0,0 +1,104 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { hasScope, Scope } from '../auth/scopes.js';
+import { log } from '../utils/logger.js';
+import { onToolRegistered, ToolHandler } from './hooks.js';
+
+/**
+ * The OAuth scope each tool needs; null for tools anyone may call. OAuth
+ * clients cannot call a tool missing here, so new tools stay locked until mapped.
+ */
+export const TOOL_SCOPES: Record<string, Scope | null> = {
+  ping: null,
+  check_auth_status: null,
+  list_accounts: null,
+  get_qr_code: 'session:admin',
+  request_pairing_code: 'session:admin',
+  logout: 'session:admin',
+
+  list_chats: 'messages:read',
+  get_chat_by_id: 'messages:read',
+  get_direct_chat_by_contact_number: 'messages:read',
+  get_last_interaction: 'messages:read',
+  search_contacts: 'messages:read',
+  get_contact_by_id: 'messages:read',
+  get_group_info: 'messages:read',
+  list_messages: 'messages:read',
+  search_messages: 'messages:read',
+  get_message_by_id: 'messages:read',
+  get_message_context: 'messages:read',
+  get_send_queue_status: 'messages:read',
+  list_scheduled_messages: 'messages:read',
+  list_pending_drafts: 'messages:read',
+  subscribe_to_messages: 'messages:read',
+  unsubscribe_from_messages: 'messages:read',
+
+  download_media: 'media:read',
+
+  send_message: 'messages:send',
+  send_poll: 'messages:send',
+  vote_in_poll: 'messages:send',
+  send_location: 'messages:send',
+  send_contact_card: 'messages:send',
+  send_media: 'messages:send',
+  send_sticker: 'messages:send',
+  schedule_message: 'messages:send',
+  cancel_scheduled_message: 'messages:send',
+  react_to_message: 'messages:send',
+  edit_message: 'messages:send',
+  delete_message: 'messages:send',
+  star_message: 'messages:send',
+  unstar_message: 'messages:send',
+  pin_message: 'messages:send',
+  forward_message: 'messages:send',
+
+  create_group: 'groups:admin',
+  add_group_participants: 'groups:admin',
+  remove_group_participants: 'groups:admin',
+  promote_group_participants: 'groups:admin',
+  demote_group_participants: 'groups:admin',
+  set_group_subject: 'groups:admin',
+  set_group_description: 'groups:admin',
+  update_group_settings: 'groups:admin',
+  get_group_invite_link: 'groups:admin',
+  revoke_group_invite_link: 'groups:admin',
+  join_group_by_invite: 'groups:admin',
+  leave_group: 'groups:admin',
+};
+
+/**
+ * Check the OAuth scopes of the calling client for every tool registered
+ * after this call (TOOL_SCOPES). Sessions without OAuth are not limited.
+ * Install it after the policy guard, so out-of-scope calls are refused
+ * before anything else looks at them.
+ */
+export function registerScopeGuard(server: McpServer): void {
+  onToolRegistered(server, (name, registered) => {
+    const required = Object.hasOwn(TOOL_SCOPES, name) ? TOOL_SCOPES[name] : undefined;
+    if (required === null) return;
+
+    const refuse = (authInfo: AuthInfo | undefined): CallToolResult | null => {
+      const allowed = required ? hasScope(authInfo, required) : !authInfo;
+      if (allowed) return null;
+      const message = required
+        ? `Insufficient scope: ${name} requires "${required}", which this OAuth client was not granted.`
+        : `Insufficient scope: ${name} is not available to OAuth clients.`;
+      log.warn(`Scope check blocked ${name} for client ${authInfo?.clientId}`);
+      return { content: [{ type: 'text', text: message }], isError: true };
+    };
+
+    // Tools without parameters are called with `extra` only
+    if (registered.inputSchema) {
+      const run = registered.handler as unknown as ToolHandler;
+      const callback: ToolHandler = async (args, extra) =>
+        refuse((extra as { authInfo?: AuthInfo }).authInfo) ?? run(args, extra);
+      registered.update({ callback: callback as never });
+    } else {
+      const run = registered.handler as unknown as (extra: unknown) => Promise<CallToolResult>;
+      const callback = async (extra: unknown): Promise<CallToolResult> =>
+        refuse((extra as { authInfo?: AuthInfo }).authInfo) ?? run(extra);
+      registered.update({ callback: callback as never });
+    }
+  });
+}
@@ -108,3 +108,64 @@ export class AudioUtils {
     }
   }
 }
+
+// WhatsApp stickers are 512x512 WebP images; animated ones are capped in
+// length and size, so clips are cut short and sampled at a low frame rate.
+const STICKER_SIZE = 512;
+const ANIMATED_STICKER_MAX_SECONDS = 6;
+const ANIMATED_STICKER_FPS = 15;
+
+export class StickerUtils {
+  /**
+   * Convert an image or short video to a WhatsApp sticker (512x512 WebP,
+   * aspect ratio kept on a transparent canvas) using the same ffmpeg binary
+   * as the audio conversion. Videos and GIFs become animated stickers.
+   *
+   * @param inputPath Path to the input image or video.
+   * @param animated Whether the input is a video/GIF.
+   * @returns Path to a temporary .webp file; the caller deletes it.
+   */
+  static convertToWebpStickerTemp(inputPath: string, animated: boolean): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!fs.existsSync(inputPath)) {
+        return reject(new Error(`Input file not found: ${inputPath}`));
+      }
+
+      const outputPath = path.join(os.tmpdir(), `whatsapp_sticker_${Date.now()}.webp`);
+      const filters = [
+        `scale=${STICKER_SIZE}:${STICKER_SIZE}:force_original_aspect_ratio=decrease`,
+        ...(animated ? [`fps=${ANIMATED_STICKER_FPS}`] : []),
+        `pad=${STICKER_SIZE}:${STICKER_SIZE}:(ow-iw)/2:(oh-ih)/2:color=0x00000000`,
+        'format=rgba',
+      ];
+      const command = ffmpeg(inputPath)
+        .videoFilters(filters)
+        .outputOptions(['-vcodec libwebp', '-lossless 0', '-q:v 60', '-an']);
+      if (animated) {
+        command.outputOptions(['-loop 0', `-t ${ANIMATED_STICKER_MAX_SECONDS}`, '-vsync 0']);
+      } else {
+        command.outputOptions(['-frames:v 1']);
+      }
+
+      log.debug(`Starting ffmpeg sticker conversion: ${inputPath} -> ${outputPath}`);
+      command
+        .output(outputPath)
+        .on('end', () => {
+          log.debug(`ffmpeg sticker conversion finished: ${outputPath}`);
+          resolve(outputPath);
+        })
+        .on('error', (err: Error) => {
+          log.error(`ffmpeg sticker conversion error for ${inputPath}:`, err);
+          if (fs.existsSync(outputPath)) {
+            try {
+              fs.unlinkSync(outputPath);
+            } catch (cleanupError) {
+              log.warn(`Failed to clean up temporary file ${outputPath}:`, cleanupError);
+            }
+          }
+          reject(new Error(`ffmpeg sticker conversion failed: ${err.message}`));
+        })
+        .run();
+    });
+  }
+}
@@ -26,6 +26,7 @@ interface BrowserProcess {
   startTime: number;
   serverInstanceId: string; // Unique ID for this server instance
   serverPid?: number; // PID of the node process that owns this browser
+  account?: string; // WhatsApp account (WHATSAPP_ACCOUNTS) the browser serves
 }
 
 /**
@@ -34,13 +35,17 @@ interface BrowserProcess {
 export class BrowserProcessManager {
   private pidFilePath: string;
   private serverInstanceId: string;
+  private readonly account?: string;
 
   /**
    * Creates a new BrowserProcessManager
    * @param pidFilePath Override the PID-file location (used by tests)
+   * @param account Account whose browsers this manager registers; entries of
+   *        all accounts share one PID file, so orphan cleanup sees them all
    */
-  constructor(pidFilePath?: string) {
+  constructor(pidFilePath?: string, account?: string) {
     this.pidFilePath = pidFilePath ?? path.join(process.cwd(), '.chrome-pids.json');
+    this.account = account;
     // Generate a unique ID for this server instance
     this.serverInstanceId = Date.now().toString() + '-' + Math.random().toString(36).substring(2, 15);
     
@@ -85,7 +90,7 @@ export class BrowserProcessManager {
       return;
     }
 
-    log.info(`Registering browser process with PID: ${pid}`);
+    log.info(`Registering browser process with PID: ${pid}${this.account ? ` (account ${this.account})` : ''}`);
     const processes = this.readProcesses();
     
     // Check if this PID is already registered
@@ -94,6 +99,7 @@ export class BrowserProcessManager {
       startTime: Date.now(),
       serverInstanceId: this.serverInstanceId,
       serverPid: process.pid,
+      ...(this.account && { account: this.account }),
     };
     const existingIndex = processes.findIndex(p => p.pid === pid);
     if (existingIndex >= 0) {
@@ -105,6 +111,14 @@ export class BrowserProcessManager {
     this.saveProcesses(processes);
   }
 
+  /**
+   * Browser processes registered for this manager's account (or, for a
+   * manager without an account, those registered without one)
+   */
+  accountProcesses(): BrowserProcess[] {
+    return this.readProcesses().filter((entry) => entry.account === this.account);
+  }
+
   /**
    * Unregister a browser process
    * @param pid Process ID of the browser to unregister
@@ -190,22 +204,24 @@ export class BrowserProcessManager {
   }
 
   /**
-   * Find browser processes whose command line references the given profile
-   * (user-data-dir) path. Unlike the PID file, this catches browsers that were
-   * never registered (e.g. the server was force-killed mid-initialize) - the
-   * exact processes that keep the session directory locked.
+   * Find browser processes launched with exactly the given profile
+   * (`--user-data-dir=<userDataDir>`). Unlike the PID file, this catches
+   * browsers that were never registered (e.g. the server was force-killed
+   * mid-initialize) - the exact processes that keep the session directory
+   * locked. The argument must end right after the path: one account's
+   * profile path can be the prefix of another's.
    */
   async findBrowsersUsingProfile(userDataDir: string): Promise<number[]> {
     try {
       if (process.platform === 'win32') {
-        // The profile path travels via an env var and is compared with
-        // String.Contains (no regex, no quoting) so paths with spaces,
-        // parentheses, quotes, etc. cannot break the query. -EncodedCommand
-        // sidesteps every layer of argv/PowerShell quoting.
+        // The profile path travels via an env var and is escaped with
+        // [regex]::Escape so paths with spaces, parentheses, quotes, etc.
+        // cannot break the query. -EncodedCommand sidesteps every layer of
+        // argv/PowerShell quoting.
         const script =
-          '$dir = $env:WA_MCP_PROFILE_DIR; ' +
+          '$arg = \'--user-data-dir=\' + [regex]::Escape($env:WA_MCP_PROFILE_DIR) + \'(["\\s]|$)\'; ' +
           'Get-CimInstance Win32_Process -Filter "Name=\'chrome.exe\' OR Name=\'msedge.exe\' OR Name=\'chromium.exe\' OR Name=\'headless_shell.exe\'" | ' +
-          'Where-Object { $_.CommandLine -and $_.CommandLine.Contains($dir) } | ' +
+          'Where-Object { $_.CommandLine -and $_.CommandLine -match $arg } | ' +
           'ForEach-Object { $_.ProcessId }';
         const encoded = Buffer.from(script, 'utf16le').toString('base64');
         const { stdout } = await execFileAsync(
@@ -217,8 +233,8 @@ export class BrowserProcessManager {
       } else {
         // pgrep -f matches against the full command line; escape the path so
         // it is treated as a literal string, not a regex.
-        const pattern = userDataDir.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const { stdout } = await execFileAsync('pgrep', ['-f', pattern], EXEC_OPTS);
+        const dir = userDataDir.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const { stdout } = await execFileAsync('pgrep', ['-f', '--', `--user-data-dir=${dir}( |$)`], EXEC_OPTS);
         return parsePids(stdout);
       }
     } catch {
@@ -274,19 +290,18 @@ export class BrowserProcessManager {
    */
   async cleanupOrphanedProcesses(): Promise<void> {
     log.info('Cleaning up orphaned browser processes...');
-    const processes = this.readProcesses();
-    const validProcesses: BrowserProcess[] = [];
+    const removed: BrowserProcess[] = [];
     
-    for (const entry of processes) {
+    for (const entry of this.readProcesses()) {
       const isRunning = await this.isProcessRunning(entry.pid);
       if (!isRunning) {
         // Browser is gone; just drop the stale entry
+        removed.push(entry);
         continue;
       }
 
       const isFromCurrentInstance = entry.serverInstanceId === this.serverInstanceId;
       if (isFromCurrentInstance) {
-        validProcesses.push(entry);
         continue;
       }
 
@@ -296,13 +311,14 @@ export class BrowserProcessManager {
       // alive, the browser is legitimately in use - never kill it.
       if (entry.serverPid !== undefined) {
         const ownerAlive = entry.serverPid === process.pid || (await this.isProcessRunning(entry.serverPid));
-        if (ownerAlive) {
-          validProcesses.push(entry);
-        } else {
-          log.info(`Browser PID ${entry.pid} is orphaned (owning server ${entry.serverPid} is dead), killing it.`);
-          const killed = await this.killProcess(entry.pid);
-          if (!killed) {
-            validProcesses.push(entry);
+        if (!ownerAlive) {
+          log.info(
+            `Browser PID ${entry.pid}${entry.account ? ` (account ${entry.account})` : ''} is orphaned ` +
+              `(owning server ${entry.serverPid} is dead), killing it.`,
+          );
+          // An entry that could not be killed stays so a later cleanup can retry
+          if (await this.killProcess(entry.pid)) {
+            removed.push(entry);
           }
         }
         continue;
@@ -312,17 +328,18 @@ export class BrowserProcessManager {
       const isOld = Date.now() - entry.startTime > 10 * 60 * 1000; // 10 minutes
       if (isOld) {
         log.info(`Found orphaned browser process with PID: ${entry.pid} (legacy entry)`);
-        const killed = await this.killProcess(entry.pid);
-        if (!killed) {
-          validProcesses.push(entry);
+        if (await this.killProcess(entry.pid)) {
+          removed.push(entry);
         }
-      } else {
-        validProcesses.push(entry);
       }
     }
     
-    // Save the updated list
-    this.saveProcesses(validProcesses);
-    log.info(`Cleanup complete. ${processes.length - validProcesses.length} orphaned processes removed.`);
+    // Other accounts' managers share the file and may have registered or
+    // unregistered browsers while this ran: drop only the entries removed
+    // here from the current contents instead of writing back a stale snapshot.
+    const isRemoved = (entry: BrowserProcess) =>
+      removed.some((gone) => gone.pid === entry.pid && gone.startTime === entry.startTime);
+    this.saveProcesses(this.readProcesses().filter((entry) => !isRemoved(entry)));
+    log.info(`Cleanup complete. ${removed.length} orphaned processes removed.`);
   }
 }
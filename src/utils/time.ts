@@ -0,0 +1,22 @@
+/**
+ * Parse a tool-supplied point in time (ISO 8601 or Unix seconds) into Unix
+ * seconds, the unit whatsapp-web.js uses for message timestamps.
+ */
+export function toUnixSeconds(value: string, field: string): number {
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+  const millis = Date.parse(value);
+  if (Number.isNaN(millis)) {
+    throw new Error(`Invalid ${field} '${value}': use ISO 8601 (e.g. 2024-05-01T09:00:00Z) or Unix seconds.`);
+  }
+  return Math.floor(millis / 1000);
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400 };
+
+/** Parse a duration such as "90s", "30m", "2h" or "1d" into seconds; null if malformed. */
+export function parseDurationSeconds(value: string): number | null {
+  const match = /^(\d+)\s*([smhd])$/i.exec(value.trim());
+  return match ? Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()] : null;
+}
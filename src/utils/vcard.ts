@@ -0,0 +1,57 @@
+/** A contact decoded from a vCard attached to a WhatsApp message. */
+export interface VCardContact {
+  name: string;
+  phoneNumbers: Array<{ number: string; waId?: string; type?: string }>;
+  organization?: string;
+  email?: string;
+}
+
+/** vCard text values escape commas, semicolons and newlines with a backslash. */
+const unescapeValue = (value: string): string =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Decode the fields WhatsApp puts into contact cards (FN/N, TEL with the
+ * `waid` parameter, ORG, EMAIL). Unknown properties are ignored; folded
+ * continuation lines are joined first.
+ */
+export function parseVCard(vcard: string): VCardContact {
+  const lines = vcard.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const contact: VCardContact = { name: '', phoneNumbers: [] };
+  let structuredName = '';
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const [property, ...params] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+    // Grouped properties look like "item1.TEL"
+    switch (property.replace(/^[^.]+\./, '').toUpperCase()) {
+      case 'FN':
+        contact.name = unescapeValue(value);
+        break;
+      case 'N':
+        structuredName = value
+          .split(';')
+          .slice(0, 2)
+          .reverse()
+          .map(unescapeValue)
+          .filter(Boolean)
+          .join(' ');
+        break;
+      case 'TEL': {
+        const waId = params.find((param) => /^waid=/i.test(param))?.split('=')[1];
+        const type = params.find((param) => /^type=/i.test(param))?.split('=')[1];
+        contact.phoneNumbers.push({ number: unescapeValue(value), waId, type });
+        break;
+      }
+      case 'ORG':
+        contact.organization = unescapeValue(value.split(';')[0]);
+        break;
+      case 'EMAIL':
+        contact.email ??= unescapeValue(value);
+        break;
+    }
+  }
+  contact.name ||= structuredName;
+  return contact;
+}
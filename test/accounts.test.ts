@@ -0,0 +1,370 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AccountLimitError,
+  AccountRegistry,
+  accountNamesFromEnv,
+  principalAccountLimitsFromEnv,
+  PrincipalAccounts,
+  type Account,
+} from '../src/services/accounts.js';
+import { DraftStore } from '../src/services/drafts.js';
+import { registerAccountBinding, registerAccountParam, registerAccountTools } from '../src/tools/accounts.js';
+import { registerApprovalTools } from '../src/tools/approvals.js';
+import { registerMessageTools } from '../src/tools/messages.js';
+import { registerNotificationTools } from '../src/tools/notifications.js';
+import { registerWhatsAppResources } from '../src/resources/whatsapp.js';
+import { makeFakeMessage, makeService, sleep } from './helpers/fake-client.js';
+
+/** An account whose service only fakes what the tests call. */
+function fakeAccount(name: string): Account {
+  const whatsapp = {
+    sendMessage: vi.fn(async () => ({ id: { _serialized: `sent-by-${name}` }, timestamp: 1 })),
+    isAuthenticated: vi.fn(() => name === 'personal'),
+    getLatestQrCode: vi.fn(() => (name === 'personal' ? null : 'qr')),
+  };
+  const browserProcessManager = { accountProcesses: () => [{ pid: name.length }] };
+  return { name, whatsapp, browserProcessManager } as unknown as Account;
+}
+
+/** A principal's account whose session directory lives below `root`. */
+function fakePrincipalAccount(root: string, name: string): Account {
+  const account = fakeAccount(name);
+  Object.assign(account.whatsapp, {
+    isAuthenticated: vi.fn(() => false),
+    initialize: vi.fn(async () => {}),
+    destroy: vi.fn(async () => {}),
+    onSessionInvalidated: vi.fn(),
+    hasMessageEventListeners: vi.fn(() => false),
+    getSessionDataPath: () => path.join(root, name),
+  });
+  return { ...account, scheduler: { start: vi.fn(), stop: vi.fn() } } as unknown as Account;
+}
+
+const text = (result: unknown): string =>
+  (result as { content: Array<{ type: string; text?: string }> }).content[0]?.text ?? '';
+
+describe('accountNamesFromEnv', () => {
+  it('defaults to the single default account', () => {
+    expect(accountNamesFromEnv(undefined)).toEqual(['default']);
+    expect(accountNamesFromEnv(' ')).toEqual(['default']);
+  });
+
+  it('parses a comma-separated list', () => {
+    expect(accountNamesFromEnv('personal, business')).toEqual(['personal', 'business']);
+  });
+
+  it('rejects invalid or duplicate names', () => {
+    expect(() => accountNamesFromEnv('personal,my business')).toThrow(/Invalid account name "my business"/);
+    expect(() => accountNamesFromEnv('a,a')).toThrow(/twice/);
+    expect(() => accountNamesFromEnv('personal,oauth-1')).toThrow(/reserved/);
+  });
+});
+
+describe('AccountRegistry', () => {
+  it('forwards the current service to the account selected for the call', async () => {
+    const accounts = new AccountRegistry([fakeAccount('personal'), fakeAccount('business')]);
+    const whatsapp = accounts.currentService();
+    expect(whatsapp.isAuthenticated()).toBe(true);
+    expect(await accounts.run('business', async () => whatsapp.isAuthenticated())).toBe(false);
+    expect(() => accounts.run('other', () => 0)).toThrow(/Unknown WhatsApp account "other"/);
+  });
+
+  it('gives named accounts their own session directory and LocalAuth clientId', () => {
+    const { service, fake } = makeService({ account: 'business', pairingPhoneNumber: null });
+    expect(path.basename(service.getSessionDataPath())).toBe('business');
+    const auth = fake().options.authStrategy as unknown as { clientId?: string };
+    expect(auth.clientId).toBe('business');
+    expect(fake().options.pairWithPhoneNumber).toBeUndefined();
+
+    const unnamed = makeService();
+    expect((unnamed.fake().options.authStrategy as unknown as { clientId?: string }).clientId).toBeUndefined();
+  });
+});
+
+describe('PrincipalAccounts', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'principals-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  function principals(idleMs = 60_000, maxOpen = 10) {
+    const registry = new AccountRegistry([fakeAccount('personal')]);
+    const accounts = new PrincipalAccounts(registry, {
+      idleMs,
+      maxOpen,
+      startScheduler: true,
+      create: (name) => fakePrincipalAccount(root, name),
+    });
+    return { registry, accounts };
+  }
+
+  it('opens an account on first use and lets run() select it without listing it', async () => {
+    const { registry, accounts } = principals();
+    const name = accounts.newName();
+    expect(name).toMatch(/^oauth-[0-9a-f]{16}$/);
+
+    const account = accounts.get(name);
+    expect(account.whatsapp.initialize).toHaveBeenCalledTimes(1);
+    expect(account.scheduler.start).toHaveBeenCalledTimes(1);
+    expect(accounts.get(name)).toBe(account);
+    expect(registry.run(name, () => registry.current())).toBe(account);
+    expect(registry.names).toEqual(['personal']);
+    expect(() => registry.run('other', () => 0)).toThrow(/Unknown WhatsApp account/);
+  });
+
+  it('closes idle accounts and removes the directory of those never linked', async () => {
+    const { accounts } = principals(1000);
+    const unlinked = accounts.get('oauth-unlinked');
+    fs.mkdirSync(unlinked.whatsapp.getSessionDataPath());
+    const linked = accounts.get('oauth-linked');
+    fs.mkdirSync(linked.whatsapp.getSessionDataPath());
+    vi.mocked(linked.whatsapp.isAuthenticated).mockReturnValue(true);
+
+    expect(await accounts.evictIdle(Date.now())).toEqual([]);
+    expect(await accounts.evictIdle(Date.now() + 2000)).toEqual(['oauth-unlinked', 'oauth-linked']);
+    expect(accounts.openNames()).toEqual([]);
+    expect(unlinked.whatsapp.destroy).toHaveBeenCalledTimes(1);
+    expect(unlinked.scheduler.stop).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(unlinked.whatsapp.getSessionDataPath())).toBe(false);
+    expect(fs.existsSync(linked.whatsapp.getSessionDataPath())).toBe(true);
+
+    // The next use opens it again
+    expect(accounts.get('oauth-linked')).not.toBe(linked);
+  });
+
+  it('refuses to open more accounts than allowed until one closes', async () => {
+    const { accounts } = principals(1000, 2);
+    const first = accounts.get('oauth-1');
+    accounts.get('oauth-2');
+    expect(() => accounts.get('oauth-3')).toThrow(AccountLimitError);
+    expect(accounts.get('oauth-1')).toBe(first);
+    expect(accounts.openNames()).toEqual(['oauth-1', 'oauth-2']);
+
+    await accounts.evictIdle(Date.now() + 2000);
+    expect(accounts.get('oauth-3').whatsapp.initialize).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('principalAccountLimitsFromEnv', () => {
+  it('defaults to 30 idle minutes and 10 accounts', () => {
+    expect(principalAccountLimitsFromEnv({})).toEqual({ idleMs: 30 * 60_000, maxOpen: 10 });
+    expect(principalAccountLimitsFromEnv({ MCP_OAUTH_ACCOUNT_IDLE_MINUTES: '5', MCP_OAUTH_MAX_ACCOUNTS: '3' })).toEqual({
+      idleMs: 5 * 60_000,
+      maxOpen: 3,
+    });
+  });
+
+  it('rejects values that are not numbers or below 1', () => {
+    expect(() => principalAccountLimitsFromEnv({ MCP_OAUTH_ACCOUNT_IDLE_MINUTES: 'soon' })).toThrow(/at least 1/);
+    expect(() => principalAccountLimitsFromEnv({ MCP_OAUTH_ACCOUNT_IDLE_MINUTES: '0.5' })).toThrow(/at least 1/);
+    expect(() => principalAccountLimitsFromEnv({ MCP_OAUTH_MAX_ACCOUNTS: '0' })).toThrow(/at least 1/);
+    expect(() => principalAccountLimitsFromEnv({ MCP_OAUTH_MAX_ACCOUNTS: '2.5' })).toThrow(/whole number/);
+  });
+});
+
+describe('account parameter', () => {
+  let dir: string | null = null;
+  let cleanup: (() => Promise<void>) | null = null;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  async function connect(requireApproval = false) {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-test-'));
+    const personal = fakeAccount('personal');
+    const business = fakeAccount('business');
+    const accounts = new AccountRegistry([personal, business]);
+    const drafts = new DraftStore(path.join(dir, 'drafts.json'), path.join(dir, 'decisions.jsonl'));
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerApprovalTools(server, drafts, { requireApproval, reviewPage: true, executors: true });
+    registerAccountParam(server, accounts);
+    registerAccountTools(server, accounts);
+    registerMessageTools(server, accounts.currentService());
+
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    cleanup = async () => {
+      await client.close();
+      await server.close();
+    };
+    return { client, drafts, personal: personal.whatsapp, business: business.whatsapp };
+  }
+
+  it('adds an optional account parameter to every tool but list_accounts', async () => {
+    const { client } = await connect();
+    const { tools } = await client.listTools();
+    const send = tools.find((tool) => tool.name === 'send_message')!;
+    expect(send.inputSchema.properties?.account).toMatchObject({ enum: ['personal', 'business'] });
+    expect(send.inputSchema.required).not.toContain('account');
+    expect(tools.find((tool) => tool.name === 'list_accounts')!.inputSchema.properties?.account).toBeUndefined();
+  });
+
+  it('runs each call on the account it names, the first one by default', async () => {
+    const { client, personal, business } = await connect();
+    await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi', account: 'business' } });
+    expect(business.sendMessage).toHaveBeenCalledTimes(1);
+    expect(personal.sendMessage).not.toHaveBeenCalled();
+
+    await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(personal.sendMessage).toHaveBeenCalledTimes(1);
+
+    const unknown = await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi', account: 'x' } });
+    expect(unknown.isError).toBe(true);
+  });
+
+  it('approves drafts on the account they were created for', async () => {
+    const { client, drafts, personal, business } = await connect(true);
+    const result = await client.callTool({
+      name: 'send_message',
+      arguments: { recipient_jid: '1@c.us', message: 'hi', account: 'business' },
+    });
+    const { draftId, summary } = JSON.parse(text(result));
+    expect(summary).toBe('send_message (1@c.us) [business]: hi');
+    await drafts.approve(draftId, 'web');
+    expect(business.sendMessage).toHaveBeenCalledTimes(1);
+    expect(personal.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('lists the accounts with their state', async () => {
+    const { client } = await connect();
+    const result = JSON.parse(text(await client.callTool({ name: 'list_accounts', arguments: {} })));
+    expect(result).toEqual([
+      { name: 'personal', default: true, authenticated: true, awaitingQrScan: false, browserPids: [8] },
+      { name: 'business', default: false, authenticated: false, awaitingQrScan: true, browserPids: [8] },
+    ]);
+  });
+});
+
+describe('account binding', () => {
+  let dir: string | null = null;
+  let cleanup: (() => Promise<void>) | null = null;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('runs every call on the principal\'s account and keeps its drafts apart', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'binding-test-'));
+    const root = dir;
+    const personal = fakeAccount('personal');
+    const accounts = new AccountRegistry([personal]);
+    const principals = new PrincipalAccounts(accounts, {
+      idleMs: 60_000,
+      maxOpen: 10,
+      startScheduler: false,
+      create: (name) => fakePrincipalAccount(root, name),
+    });
+    const principal = principals.get('oauth-1').whatsapp;
+    const drafts = new DraftStore(path.join(dir, 'drafts.json'), path.join(dir, 'decisions.jsonl'));
+    drafts.create('send_message', { recipient_jid: '2@c.us', message: 'other', account: 'oauth-2' });
+
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerApprovalTools(server, drafts, { requireApproval: true, account: 'oauth-1', reviewPage: true, executors: true });
+    registerAccountBinding(server, accounts, 'oauth-1');
+    registerMessageTools(server, accounts.currentService());
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    cleanup = async () => {
+      await client.close();
+      await server.close();
+    };
+
+    const { tools } = await client.listTools();
+    expect(tools.find((tool) => tool.name === 'send_message')!.inputSchema.properties?.account).toBeUndefined();
+
+    const result = await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    const { draftId } = JSON.parse(text(result));
+    const listed = JSON.parse(text(await client.callTool({ name: 'list_pending_drafts', arguments: {} })));
+    expect(listed.drafts.map((draft: { id: string }) => draft.id)).toEqual([draftId]);
+
+    await drafts.approve(draftId, 'web');
+    expect(principal.sendMessage).toHaveBeenCalledTimes(1);
+    expect(personal.whatsapp.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('follows a principal\'s account for resources and subscriptions after it was closed as idle', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reopen-test-'));
+    vi.stubEnv('WHATSAPP_SESSION_DIR', dir);
+    const opened: Array<ReturnType<typeof makeService>> = [];
+    const accounts = new AccountRegistry([fakeAccount('personal')]);
+    const principals = new PrincipalAccounts(accounts, {
+      idleMs: 1000,
+      maxOpen: 10,
+      startScheduler: false,
+      create: (name) => {
+        const made = makeService({ account: name, pairingPhoneNumber: null });
+        opened.push(made);
+        return { name, whatsapp: made.service, scheduler: { start: vi.fn(), stop: vi.fn() } } as unknown as Account;
+      },
+    });
+    // Open the account and make its WhatsApp client ready with one chat
+    const open = (chatName: string) => {
+      principals.get('oauth-1');
+      const fake = opened[opened.length - 1].fake();
+      fake.emit('ready');
+      fake.getChats.mockResolvedValue([{ id: { _serialized: '1@c.us' }, name: chatName, unreadCount: 0, timestamp: 1 }]);
+      return fake;
+    };
+    // Like the HTTP server: every request opens the account and runs in it
+    const inAccount = <T>(request: () => Promise<T>): Promise<T> => {
+      principals.get('oauth-1');
+      return accounts.run('oauth-1', request);
+    };
+
+    const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { logging: {} } });
+    registerWhatsAppResources(server, accounts.currentService());
+    registerNotificationTools(server, accounts.currentService());
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const received: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => void received.push(n.params.uri));
+    client.setNotificationHandler(LoggingMessageNotificationSchema, () => void received.push('event'));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    cleanup = async () => {
+      await client.close();
+      await server.close();
+      await principals.closeAll();
+      vi.unstubAllEnvs();
+    };
+    const chatNames = async () => {
+      const { contents } = await inAccount(() => client.readResource({ uri: 'whatsapp://chats' }));
+      return JSON.parse(String(contents[0].text)).map((chat: { name: string }) => chat.name);
+    };
+
+    open('before');
+    expect(await chatNames()).toEqual(['before']);
+    expect(await principals.evictIdle(Date.now() + 2000)).toEqual(['oauth-1']);
+
+    const fake = open('after');
+    expect(await chatNames()).toEqual(['after']);
+    await inAccount(() => client.callTool({ name: 'subscribe_to_messages', arguments: {} }));
+    await inAccount(() => client.subscribeResource({ uri: 'whatsapp://chats' }));
+    // Subscriptions keep the account open
+    expect(await principals.evictIdle(Date.now() + 2000)).toEqual([]);
+
+    fake.emit('message_create', makeFakeMessage({ fromMe: false, from: '1@c.us' }));
+    await sleep(20);
+    expect(received.sort()).toEqual(['event', 'whatsapp://chats']);
+  });
+});
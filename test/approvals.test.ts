@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { registerApprovalTools } from '../src/tools/approvals.js';
+import { registerMessageTools } from '../src/tools/messages.js';
+import { DraftStore } from '../src/services/drafts.js';
+import type { WhatsAppService } from '../src/services/whatsapp.js';
+
+let dir: string;
+let drafts: DraftStore;
+let fakeService: { sendMessage: ReturnType<typeof vi.fn>; searchMessages: ReturnType<typeof vi.fn> };
+let client: Client;
+let cleanup: (() => Promise<void>) | null = null;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drafts-test-'));
+  drafts = new DraftStore(path.join(dir, 'drafts.json'), path.join(dir, 'decisions.jsonl'));
+  fakeService = {
+    sendMessage: vi.fn(async () => ({ id: { _serialized: 'sent-1' }, timestamp: 1 })),
+    searchMessages: vi.fn(async () => ({ total: 0, results: [] })),
+  };
+});
+
+afterEach(async () => {
+  await cleanup?.();
+  cleanup = null;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Connect a client; `elicit` answers approval prompts (omit for a client
+ * without elicitation). `reviewPage: false` is stdio without the HTTP port.
+ */
+async function connect(requireApproval: boolean, elicit?: () => ElicitResult, reviewPage = true) {
+  const server = new McpServer({ name: 'test', version: '0.0.0' });
+  registerApprovalTools(server, drafts, { requireApproval, reviewPage, executors: true });
+  registerMessageTools(server, fakeService as unknown as WhatsAppService);
+
+  client = new Client({ name: 'test-client', version: '0.0.0' }, { capabilities: elicit ? { elicitation: {} } : {} });
+  if (elicit) client.setRequestHandler(ElicitRequestSchema, async () => elicit());
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  cleanup = async () => {
+    await client.close();
+    await server.close();
+  };
+}
+
+const text = (result: unknown): string =>
+  (result as { content: Array<{ type: string; text?: string }> }).content[0]?.text ?? '';
+
+const decisions = () =>
+  fs
+    .readFileSync(path.join(dir, 'decisions.jsonl'), 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+
+const sendHello = () =>
+  client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hello' } });
+
+describe('approval mode', () => {
+  it('sends directly when approval is not required', async () => {
+    await connect(false);
+    await sendHello();
+    expect(fakeService.sendMessage).toHaveBeenCalledTimes(1);
+    expect(drafts.list()).toEqual([]);
+  });
+
+  it('turns write tools into drafts that run once approved on the review page', async () => {
+    await connect(true);
+    const result = await sendHello();
+    expect(JSON.parse(text(result))).toMatchObject({ status: 'pending_approval', summary: 'send_message (1@c.us): hello' });
+    expect(fakeService.sendMessage).not.toHaveBeenCalled();
+
+    // Drafts of OAuth principals' own accounts stay out of other sessions
+    drafts.create('send_message', { recipient_jid: '2@c.us', message: 'theirs', account: 'oauth-1' });
+    const listed = JSON.parse(text(await client.callTool({ name: 'list_pending_drafts', arguments: {} })));
+    expect(listed.drafts).toHaveLength(1);
+    const [draft] = listed.drafts;
+
+    const approved = await drafts.approve(draft.id, 'web', 'looks fine');
+    expect(fakeService.sendMessage).toHaveBeenCalledWith('1@c.us', 'hello', expect.anything());
+    expect(approved.draft).toMatchObject({ status: 'approved', decidedVia: 'web', note: 'looks fine' });
+    expect(approved.draft.result).toContain('sent-1');
+    expect(decisions()).toMatchObject([{ draftId: draft.id, decision: 'approved', via: 'web', outcome: 'sent' }]);
+
+    await expect(drafts.approve(draft.id, 'web')).rejects.toThrow(/already approved/);
+    expect(fakeService.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves read tools alone', async () => {
+    await connect(true);
+    await client.callTool({ name: 'search_messages', arguments: { query: 'invoice' } });
+    expect(fakeService.searchMessages).toHaveBeenCalled();
+    expect(drafts.list()).toEqual([]);
+  });
+
+  it('asks the user through elicitation when the client supports it', async () => {
+    await connect(true, () => ({ action: 'accept', content: { decision: 'approve' } }));
+    const result = await sendHello();
+    expect(JSON.parse(text(result))).toMatchObject({ success: true, messageId: 'sent-1' });
+    expect(drafts.list('approved')).toHaveLength(1);
+    expect(decisions()).toMatchObject([{ decision: 'approved', via: 'elicitation' }]);
+  });
+
+  it('records a rejection from the client and sends nothing', async () => {
+    await connect(true, () => ({ action: 'accept', content: { decision: 'reject', note: 'wrong person' } }));
+    const result = await sendHello();
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/rejected.*wrong person/);
+    expect(fakeService.sendMessage).not.toHaveBeenCalled();
+    expect(decisions()).toMatchObject([{ decision: 'rejected', via: 'elicitation', note: 'wrong person' }]);
+  });
+
+  it('keeps the draft pending when the prompt is dismissed', async () => {
+    await connect(true, () => ({ action: 'cancel' }));
+    const result = await sendHello();
+    expect(JSON.parse(text(result))).toMatchObject({ status: 'pending_approval' });
+    expect(drafts.list('pending')).toHaveLength(1);
+  });
+
+  it('refuses write tools when neither a prompt nor the review page can decide', async () => {
+    await connect(true, undefined, false);
+    const result = await sendHello();
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/cannot show approval prompts.*Nothing was sent/);
+    expect(drafts.list()).toEqual([]);
+  });
+
+  it('rejects the draft of a dismissed prompt when there is no review page', async () => {
+    await connect(true, () => ({ action: 'cancel' }), false);
+    const result = await sendHello();
+    expect(result.isError).toBe(true);
+    expect(drafts.list('rejected')).toHaveLength(1);
+    expect(fakeService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('runs approved drafts only through the executor server', async () => {
+    await connect(true);
+    await sendHello();
+    // A later session (e.g. another HTTP client) does not take over the executors
+    const other = new McpServer({ name: 'other', version: '0.0.0' });
+    const otherSend = vi.fn(async () => ({ id: { _serialized: 'other' }, timestamp: 1 }));
+    registerApprovalTools(other, drafts, { requireApproval: true, reviewPage: true });
+    registerMessageTools(other, { sendMessage: otherSend } as unknown as WhatsAppService);
+
+    await drafts.approve(drafts.list()[0].id, 'web');
+    expect(fakeService.sendMessage).toHaveBeenCalledTimes(1);
+    expect(otherSend).not.toHaveBeenCalled();
+  });
+
+  it('keeps pending drafts across restarts', async () => {
+    await connect(true);
+    await sendHello();
+    const reloaded = new DraftStore(path.join(dir, 'drafts.json'), path.join(dir, 'decisions.jsonl'));
+    expect(reloaded.list('pending')).toHaveLength(1);
+    await expect(reloaded.approve(reloaded.list()[0].id, 'web')).rejects.toThrow(/not available/);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import { spawn } from 'node:child_process';
 import { BrowserProcessManager } from '../src/utils/browser-process-manager.js';
 
 let pidFile: string;
@@ -108,9 +109,35 @@ describe('orphan cleanup', () => {
     expect(readEntries()).toHaveLength(1);
   });
 
+  it('keeps entries another manager registered while it ran', async () => {
+    writeEntries([{ pid: 111, startTime: Date.now(), serverInstanceId: 'other', serverPid: 999 }]);
+    const other = new BrowserProcessManager(pidFile, 'work');
+    vi.spyOn(manager, 'isProcessRunning').mockImplementation(async (pid: number) => {
+      other.registerProcess(5151); // registered between the read and the save
+      return pid === 111;
+    });
+    vi.spyOn(manager, 'killProcess').mockResolvedValue(true);
+    await manager.cleanupOrphanedProcesses();
+    expect(readEntries().map((e) => e.pid)).toEqual([5151]);
+  });
+
   it('survives a corrupt pid file', async () => {
     fs.writeFileSync(pidFile, '{{{{ not json');
     await expect(manager.cleanupOrphanedProcesses()).resolves.toBeUndefined();
     expect(readEntries()).toHaveLength(0);
   });
 });
+
+describe.skipIf(process.platform === 'win32')('profile lookup', () => {
+  it('matches the exact --user-data-dir argument, not a profile path with the same prefix', async () => {
+    const dir = path.join(os.tmpdir(), `profile-test-${Math.random().toString(36).slice(2)}`);
+    const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30000)', '--', `--user-data-dir=${dir}/session-work`]);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(await manager.findBrowsersUsingProfile(`${dir}/session-work`)).toEqual([child.pid]);
+      expect(await manager.findBrowsersUsingProfile(`${dir}/session`)).toEqual([]);
+    } finally {
+      child.kill();
+    }
+  });
+});
@@ -98,9 +98,11 @@ describe('Streamable HTTP with OAuth (real server)', () => {
     const txn = new URL(location, BASE).searchParams.get('txn')!;
     const page = await fetch(`${BASE}/oauth/link?txn=${txn}`);
     expect(page.status).toBe(200);
-    expect(await page.text()).toContain('Link your WhatsApp account');
+    expect(await page.text()).toContain('Authorize access to WhatsApp');
+    expect(page.headers.get('x-frame-options')).toBe('DENY');
 
     const status = await (await fetch(`${BASE}/oauth/link/status?txn=${txn}`)).json();
+    expect(status.consented).toBe(false);
     expect(status.authenticated).toBe(false);
 
     const unknownTxn = await fetch(`${BASE}/oauth/link/status?txn=unknown-txn-000000`);
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'node:events';
 import { vi } from 'vitest';
 import type WAWebJS from 'whatsapp-web.js';
-import { WhatsAppService } from '../../src/services/whatsapp.js';
+import { WhatsAppService, type WhatsAppServiceDeps } from '../../src/services/whatsapp.js';
+import { MessageStore } from '../../src/services/message-store.js';
+import { SendQueue } from '../../src/services/send-queue.js';
 import type { BrowserProcessManager } from '../../src/utils/browser-process-manager.js';
 
 /**
@@ -22,6 +24,8 @@ export class FakeClient extends EventEmitter {
   getContactById = vi.fn(async (): Promise<unknown> => null);
   getMessageById = vi.fn(async (): Promise<unknown> => null);
   sendMessage = vi.fn(async () => ({ id: { _serialized: 'sent-1' } }));
+  createGroup = vi.fn(async (): Promise<unknown> => ({ gid: { _serialized: 'group-1@g.us' }, title: '', participants: {} }));
+  acceptInvite = vi.fn(async () => 'group-1@g.us');
 
   constructor(options: WAWebJS.ClientOptions) {
     super();
@@ -29,6 +33,37 @@ export class FakeClient extends EventEmitter {
   }
 }
 
+/**
+ * A whatsapp-web.js Message with the message actions (react, edit, delete,
+ * star, pin, forward) mocked, for handing out via FakeClient.getMessageById.
+ */
+export function makeFakeMessage(overrides: Record<string, unknown> = {}) {
+  const message = {
+    id: { _serialized: 'm1', remote: '111@c.us' },
+    body: 'hello',
+    from: 'me@c.us',
+    to: '111@c.us',
+    timestamp: 1_700_000_000,
+    fromMe: true,
+    hasMedia: false,
+    type: 'chat',
+    hasQuotedMsg: false,
+    mentionedIds: [] as string[],
+    react: vi.fn(async () => {}),
+    edit: vi.fn(async (body: string): Promise<unknown> => ({ ...message, body })),
+    delete: vi.fn(async () => {}),
+    star: vi.fn(async () => {}),
+    unstar: vi.fn(async () => {}),
+    pin: vi.fn(async () => true),
+    unpin: vi.fn(async () => true),
+    forward: vi.fn(async () => {}),
+    vote: vi.fn(async () => {}),
+    getPollVotes: vi.fn(async (): Promise<unknown[]> => []),
+    ...overrides,
+  };
+  return message;
+}
+
 export function makeStubProcessManager(): BrowserProcessManager {
   return {
     cleanupOrphanedProcesses: vi.fn(async () => {}),
@@ -45,7 +80,7 @@ export function makeStubProcessManager(): BrowserProcessManager {
  * the service creates (reconnects/logouts create new ones); `fake()` returns
  * the most recent.
  */
-export function makeService() {
+export function makeService(deps: Partial<WhatsAppServiceDeps> = {}) {
   const fakes: FakeClient[] = [];
   const service = new WhatsAppService({
     clientFactory: (options) => {
@@ -54,6 +89,9 @@ export function makeService() {
       return client as unknown as WAWebJS.Client;
     },
     browserProcessManager: makeStubProcessManager(),
+    messageStore: new MessageStore(null), // memory-only; never touches the session dir
+    sendQueue: new SendQueue({ limits: { enabled: false } }), // tests send back to back
+    ...deps,
   });
   return { service, fakes, fake: () => fakes[fakes.length - 1] };
 }
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { MessageStore } from '../src/services/message-store.js';
+import type { SimpleMessage } from '../src/services/whatsapp.js';
+import { makeFakeMessage, makeService } from './helpers/fake-client.js';
+
+let storePath: string;
+
+beforeEach(() => {
+  storePath = path.join(os.tmpdir(), `message-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}.jsonl`);
+});
+
+afterEach(() => {
+  if (fs.existsSync(storePath)) fs.unlinkSync(storePath);
+});
+
+const makeMessage = (id: string, overrides: Partial<SimpleMessage> = {}): SimpleMessage => ({
+  id,
+  body: `body of ${id}`,
+  from: '111@c.us',
+  to: '222@c.us',
+  timestamp: 1_700_000_000,
+  fromMe: false,
+  hasMedia: false,
+  type: 'chat',
+  hasQuotedMsg: false,
+  mentionedIds: [],
+  ...overrides,
+});
+
+/** A raw whatsapp-web.js message shape as the fake client would emit it. */
+const rawMessage = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id: { _serialized: id, remote: '111@c.us', fromMe: false, id },
+  body: `body of ${id}`,
+  from: '111@c.us',
+  to: '222@c.us',
+  timestamp: 1_700_000_000,
+  fromMe: false,
+  hasMedia: false,
+  type: 'chat',
+  ack: 1,
+  ...overrides,
+});
+
+describe('MessageStore', () => {
+  it('persists messages and lifecycle events across restarts', () => {
+    const store = new MessageStore(storePath);
+    store.upsert(makeMessage('m1'), '111@c.us', 1);
+    store.recordAck('m1', 3);
+    store.recordEdit('m1', 'edited body');
+    store.upsert(makeMessage('m2'), '111@c.us');
+    store.recordRevoke('m2', 'everyone');
+
+    const reloaded = new MessageStore(storePath);
+    expect(reloaded.size).toBe(2);
+    const m1 = reloaded.get('m1')!;
+    expect(m1.ack).toBe(3);
+    expect(m1.body).toBe('edited body');
+    expect(m1.previousBodies).toEqual(['body of m1']);
+    expect(m1.editedAt).toBeTypeOf('number');
+    expect(reloaded.get('m2')!.revoked).toBe('everyone');
+  });
+
+  it('persists the latest poll selection per voter', () => {
+    const store = new MessageStore(storePath);
+    store.upsert(makeMessage('poll', { type: 'poll_creation' }), '111@c.us');
+    store.recordVote('poll', '111@c.us', ['Pizza']);
+    store.recordVote('poll', '222@c.us', ['Sushi']);
+    store.recordVote('poll', '111@c.us', ['Sushi']);
+
+    expect(new MessageStore(storePath).get('poll')!.pollVotes).toEqual({ '111@c.us': ['Sushi'], '222@c.us': ['Sushi'] });
+  });
+
+  it('keeps the original content of a revoked message when it is re-fetched', () => {
+    const store = new MessageStore(null);
+    store.upsert(makeMessage('m1'), '111@c.us');
+    store.recordRevoke('m1', 'everyone');
+    store.upsert(makeMessage('m1', { body: '', type: 'revoked' }), '111@c.us');
+    expect(store.get('m1')!.body).toBe('body of m1');
+  });
+
+  it('does not grow the journal for unchanged re-fetched messages', () => {
+    const store = new MessageStore(storePath);
+    store.upsert(makeMessage('m1'), '111@c.us');
+    store.upsert(makeMessage('m1'), '111@c.us');
+    expect(fs.readFileSync(storePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('skips a truncated trailing line left by a crash mid-append', () => {
+    const store = new MessageStore(storePath);
+    store.upsert(makeMessage('m1'), '111@c.us');
+    fs.appendFileSync(storePath, '{"op":"upsert","mess');
+    const reloaded = new MessageStore(storePath);
+    expect(reloaded.size).toBe(1);
+    expect(fs.readFileSync(storePath, 'utf8')).not.toContain('"mess\n');
+  });
+
+  it('returns the most recent messages of a chat, oldest first', () => {
+    const store = new MessageStore(null);
+    store.upsert(makeMessage('a', { timestamp: 3 }), 'chat-1');
+    store.upsert(makeMessage('b', { timestamp: 1 }), 'chat-1');
+    store.upsert(makeMessage('c', { timestamp: 2 }), 'chat-1');
+    store.upsert(makeMessage('d', { timestamp: 4 }), 'chat-2');
+    expect(store.getChatMessages('chat-1', 2).map((m) => m.id)).toEqual(['c', 'a']);
+  });
+});
+
+describe('MessageStore.search', () => {
+  function seededStore() {
+    const store = new MessageStore(null);
+    store.upsert(makeMessage('old', { body: 'Invoice 4711 attached', timestamp: 100 }), 'chat-1');
+    store.upsert(makeMessage('new', { body: 'the invoice number is 4711', timestamp: 200 }), 'chat-2');
+    store.upsert(makeMessage('partial', { body: 'invoices are due', timestamp: 300 }), 'chat-1');
+    store.upsert(makeMessage('photo', { body: 'invoice scan', type: 'image', from: '333@c.us', timestamp: 400 }), 'chat-1');
+    return store;
+  }
+
+  it('requires every term and ranks whole-word and phrase matches first', () => {
+    const { total, hits } = seededStore().search('invoice 4711');
+    expect(total).toBe(2);
+    expect(hits.map((h) => h.id)).toEqual(['old', 'new']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('ranks whole words above substrings', () => {
+    const { hits } = seededStore().search('invoice');
+    expect(hits[hits.length - 1].id).toBe('partial');
+  });
+
+  it('applies chat, sender, date and type filters', () => {
+    const store = seededStore();
+    expect(store.search('invoice', { chatId: 'chat-2' }).hits.map((h) => h.id)).toEqual(['new']);
+    expect(store.search('invoice', { sender: '333@c.us' }).hits.map((h) => h.id)).toEqual(['photo']);
+    expect(store.search('invoice', { after: 150, before: 350 }).total).toBe(2);
+    expect(store.search('invoice', { types: ['image'] }).hits.map((h) => h.id)).toEqual(['photo']);
+  });
+
+  it('matches the sender filter against the author in group chats', () => {
+    const store = new MessageStore(null);
+    store.upsert(makeMessage('g1', { from: 'group@g.us', author: '444@c.us', body: 'invoice' }), 'group@g.us');
+    expect(store.search('invoice', { sender: '444@c.us' }).total).toBe(1);
+    expect(store.search('invoice', { sender: 'group@g.us' }).total).toBe(0);
+  });
+
+  it('pages through results', () => {
+    const store = seededStore();
+    const page = store.search('invoice', { offset: 1, limit: 2 });
+    expect(page.total).toBe(4);
+    expect(page.hits).toHaveLength(2);
+  });
+});
+
+describe('WhatsAppService archiving', () => {
+  it('archives created messages and their edits, revokes and acks', () => {
+    const { service, fake } = makeService();
+    const message = rawMessage('m1');
+    fake().emit('message_create', message);
+    fake().emit('message_ack', message, 3);
+    fake().emit('message_edit', message, 'new text', 'body of m1');
+
+    const archived = service.getArchivedMessage('m1')!;
+    expect(archived.chatId).toBe('111@c.us');
+    expect(archived.ack).toBe(3);
+    expect(archived.body).toBe('new text');
+
+    fake().emit('message_revoke_everyone', rawMessage('m1', { body: '', type: 'revoked' }), message);
+    expect(service.getArchivedMessage('m1')!.revoked).toBe('everyone');
+  });
+
+  it('serves archived messages when WhatsApp Web no longer has them', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().emit('message_create', rawMessage('m1'));
+    const message = await service.getMessageById('m1');
+    expect(message?.body).toBe('body of m1');
+  });
+
+  it('leaves unreadable chats out of search results before counting and paging', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().emit('message_create', rawMessage('m1', { body: 'invoice 4711' }));
+    const other = { id: { _serialized: 'm2', remote: '999@c.us', fromMe: false, id: 'm2' }, from: '999@c.us' };
+    fake().emit('message_create', rawMessage('m2', { ...other, body: 'another invoice', timestamp: 1_700_000_100 }));
+
+    const results = await service.searchMessages('invoice', { limit: 1, readable: async (jid) => jid !== '999@c.us' });
+    expect(results).toMatchObject({ total: 1, hasMore: false });
+    expect(results.results.map((hit) => hit.id)).toEqual(['m1']);
+  });
+
+  it('filters WhatsApp Web results by the group member who wrote them without an archive', async () => {
+    const { service, fake } = makeService({ messageStore: null });
+    fake().emit('ready');
+    const inGroup = (id: string, author: string) =>
+      makeFakeMessage({ id: { _serialized: id, remote: 'group-1@g.us' }, from: 'group-1@g.us', author, fromMe: false });
+    Object.assign(fake(), {
+      searchMessages: vi.fn(async () => [inGroup('g1', '111@c.us'), inGroup('g2', '222@c.us')]),
+    });
+
+    const results = await service.searchMessages('invoice', { sender: '111@c.us' });
+    expect(results.total).toBe(1);
+    expect(results.results.map((hit) => hit.id)).toEqual(['g1']);
+  });
+
+  it('searches the archive with chat names and paging info', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChats.mockResolvedValue([{ id: { _serialized: '111@c.us' }, name: 'Alice' }]);
+    fake().emit('message_create', rawMessage('m1', { body: 'invoice 4711' }));
+    fake().emit('message_create', rawMessage('m2', { body: 'another invoice' }));
+
+    const results = await service.searchMessages('invoice', { limit: 1 });
+    expect(results.total).toBe(2);
+    expect(results.hasMore).toBe(true);
+    expect(results.results[0].chatName).toBe('Alice');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerNotificationTools } from '../src/tools/notifications.js';
+import { makeService, sleep, type FakeClient } from './helpers/fake-client.js';
+
+let fake: FakeClient;
+let client: Client;
+let notifications: Array<Record<string, any>>;
+let cleanup: () => Promise<void>;
+
+const rawMessage = (id: string, chat: string, overrides: Record<string, unknown> = {}) => ({
+  id: { _serialized: id, remote: chat },
+  body: `body of ${id}`,
+  from: chat,
+  to: 'me@c.us',
+  timestamp: 1_700_000_000,
+  fromMe: false,
+  hasMedia: false,
+  type: 'chat',
+  ...overrides,
+});
+
+beforeEach(async () => {
+  const made = makeService();
+  fake = made.fake();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { logging: {} } });
+  registerNotificationTools(server, made.service);
+
+  notifications = [];
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test-client', version: '0.0.0' });
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    notifications.push(notification.params.data as Record<string, any>);
+  });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  cleanup = async () => {
+    await client.close();
+    await server.close();
+  };
+});
+
+afterEach(async () => {
+  await cleanup();
+});
+
+describe('message notifications', () => {
+  it('sends nothing until the session subscribes', async () => {
+    fake.emit('message_create', rawMessage('m1', '1@c.us'));
+    await sleep(50);
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('forwards new messages, edits, revokes and acks once subscribed', async () => {
+    await client.callTool({ name: 'subscribe_to_messages', arguments: {} });
+    const message = rawMessage('m1', '1@c.us');
+    fake.emit('message_create', message);
+    fake.emit('message_edit', message, 'new body', 'body of m1');
+    fake.emit('message_revoke_me', message);
+    fake.emit('message_ack', message, 3);
+    await sleep(50);
+
+    expect(notifications.map((n) => n.event)).toEqual(['message', 'edit', 'revoke', 'ack']);
+    expect(notifications[0]).toMatchObject({ chatId: '1@c.us', message: { id: 'm1' } });
+    expect(notifications[1].previousBody).toBe('body of m1');
+    expect(notifications[2].revokedFor).toBe('me');
+    expect(notifications[3].ack).toBe(3);
+  });
+
+  it('filters by chat, event type and own messages', async () => {
+    await client.callTool({
+      name: 'subscribe_to_messages',
+      arguments: { chat_ids: ['1@c.us'], events: ['message'] },
+    });
+    fake.emit('message_create', rawMessage('other-chat', '2@c.us'));
+    fake.emit('message_create', rawMessage('own', '1@c.us', { fromMe: true }));
+    fake.emit('message_ack', rawMessage('m1', '1@c.us'), 2);
+    fake.emit('message_create', rawMessage('wanted', '1@c.us'));
+    await sleep(50);
+
+    expect(notifications.map((n) => n.message.id)).toEqual(['wanted']);
+  });
+
+  it('stops forwarding after unsubscribing', async () => {
+    await client.callTool({ name: 'subscribe_to_messages', arguments: {} });
+    await client.callTool({ name: 'unsubscribe_from_messages', arguments: {} });
+    fake.emit('message_create', rawMessage('m1', '1@c.us'));
+    await sleep(50);
+    expect(notifications).toHaveLength(0);
+  });
+});
@@ -5,6 +5,8 @@ import path from 'node:path';
 import os from 'node:os';
 import type { Response } from 'express';
 import { WhatsAppOAuthProvider } from '../src/auth/oauth-provider.js';
+import { OAuthStoreError } from '../src/auth/store-file.js';
+import { AccountRegistry, PrincipalAccounts, type Account } from '../src/services/accounts.js';
 import type { WhatsAppService } from '../src/services/whatsapp.js';
 import type { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
 
@@ -29,13 +31,35 @@ const pkcePair = () => {
 };
 
 /** Run provider.authorize and capture the redirect URL it issues. */
-async function authorize(client: OAuthClientInformationFull, codeChallenge: string, state?: string) {
+async function startAuthorization(
+  client: OAuthClientInformationFull,
+  codeChallenge: string,
+  state?: string,
+  scopes?: string[],
+) {
   let redirectUrl = '';
   const res = { redirect: (_status: number, url: string) => { redirectUrl = url; } } as unknown as Response;
-  await provider.authorize(client, { codeChallenge, redirectUri: REDIRECT_URI, state }, res);
+  await provider.authorize(client, { codeChallenge, redirectUri: REDIRECT_URI, state, scopes }, res);
   return redirectUrl;
 }
 
+const txnOf = (linkUrl: string) => new URL(linkUrl, 'http://x').searchParams.get('txn')!;
+
+/**
+ * Authorize and allow the request on the link page. Returns the redirect
+ * carrying the code, or the link page URL while WhatsApp is not linked.
+ */
+async function authorize(client: OAuthClientInformationFull, codeChallenge: string, state?: string, scopes?: string[]) {
+  const url = await startAuthorization(client, codeChallenge, state, scopes);
+  provider.consentTransaction(txnOf(url));
+  try {
+    return provider.completeTransaction(txnOf(url));
+  } catch (error) {
+    if (error instanceof Error && /not authenticated/i.test(error.message)) return url;
+    throw error;
+  }
+}
+
 beforeEach(async () => {
   storePath = path.join(os.tmpdir(), `oauth-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
   whatsappAuthenticated = true;
@@ -49,9 +73,14 @@ afterEach(() => {
 });
 
 describe('authorization', () => {
-  it('auto-approves with a code when WhatsApp is already linked', async () => {
+  it('asks for consent on the link page even when WhatsApp is already linked', async () => {
     const { challenge } = pkcePair();
-    const url = new URL(await authorize(makeClient(), challenge, 'my-state'));
+    const txn = txnOf(await startAuthorization(makeClient(), challenge, 'my-state'));
+    expect(provider.getTransaction(txn)).toBeDefined();
+    expect(() => provider.completeTransaction(txn)).toThrow(/not been allowed/i);
+
+    provider.consentTransaction(txn);
+    const url = new URL(provider.completeTransaction(txn));
     expect(url.origin + url.pathname).toBe(REDIRECT_URI);
     expect(url.searchParams.get('state')).toBe('my-state');
     expect(url.searchParams.get('code')).toBeTruthy();
@@ -60,16 +89,28 @@ describe('authorization', () => {
   it('redirects to the QR link page when WhatsApp is not linked', async () => {
     whatsappAuthenticated = false;
     const { challenge } = pkcePair();
-    const url = await authorize(makeClient(), challenge);
+    const url = await startAuthorization(makeClient(), challenge);
     expect(url).toMatch(/^\/oauth\/link\?txn=/);
-    const txn = new URL(url, 'http://x').searchParams.get('txn')!;
-    expect(provider.getTransaction(txn)).toBeDefined();
+    expect(provider.getTransaction(txnOf(url))).toBeDefined();
+  });
+
+  it('redirects a denied request back with access_denied', async () => {
+    const { challenge } = pkcePair();
+    const txn = txnOf(await startAuthorization(makeClient(), challenge, 'my-state'));
+    const url = new URL(provider.denyTransaction(txn));
+    expect(url.origin + url.pathname).toBe(REDIRECT_URI);
+    expect(url.searchParams.get('error')).toBe('access_denied');
+    expect(url.searchParams.get('state')).toBe('my-state');
+    expect(url.searchParams.get('code')).toBeNull();
+    expect(provider.getTransaction(txn)).toBeUndefined();
+    expect(() => provider.consentTransaction(txn)).toThrow(/unknown or expired/i);
   });
 
   it('completeTransaction rejects while unauthenticated and consumes the txn once authenticated', async () => {
     whatsappAuthenticated = false;
     const { challenge } = pkcePair();
-    const txn = new URL(await authorize(makeClient(), challenge), 'http://x').searchParams.get('txn')!;
+    const txn = txnOf(await startAuthorization(makeClient(), challenge));
+    provider.consentTransaction(txn);
 
     expect(() => provider.completeTransaction(txn)).toThrow(/not authenticated/i);
 
@@ -126,8 +167,78 @@ describe('token exchange', () => {
     await expect(provider.exchangeAuthorizationCode(client, code)).rejects.toThrow();
   });
 
-  it('does not support refresh tokens', async () => {
-    await expect(provider.exchangeRefreshToken()).rejects.toThrow(/not supported/i);
+});
+
+describe('refresh tokens', () => {
+  async function issueTokens(scopes?: string[]) {
+    const client = makeClient();
+    const { verifier, challenge } = pkcePair();
+    const code = new URL(await authorize(client, challenge, undefined, scopes)).searchParams.get('code')!;
+    return provider.exchangeAuthorizationCode(client, code, verifier, REDIRECT_URI);
+  }
+
+  it('issues short-lived access tokens with a hashed refresh token', async () => {
+    const tokens = await issueTokens();
+    expect(tokens.expires_in).toBe(3600);
+    expect(tokens.refresh_token).toBeTruthy();
+    expect(fs.readFileSync(storePath, 'utf8')).not.toContain(tokens.refresh_token);
+  });
+
+  it('rotates the refresh token on every use', async () => {
+    const first = await issueTokens();
+    const second = await provider.exchangeRefreshToken(makeClient(), first.refresh_token!);
+    expect(second.refresh_token).not.toBe(first.refresh_token);
+    await expect(provider.verifyAccessToken(second.access_token)).resolves.toBeDefined();
+
+    // Rotation survives a restart
+    const provider2 = new WhatsAppOAuthProvider(fakeWhatsApp, storePath);
+    const third = await provider2.exchangeRefreshToken(makeClient(), second.refresh_token!);
+    await expect(provider2.verifyAccessToken(third.access_token)).resolves.toBeDefined();
+  });
+
+  it('revokes the whole family when a used refresh token is presented again', async () => {
+    const first = await issueTokens();
+    const second = await provider.exchangeRefreshToken(makeClient(), first.refresh_token!);
+    const unrelated = await issueTokens();
+
+    await expect(provider.exchangeRefreshToken(makeClient(), first.refresh_token!)).rejects.toThrow(/already used/);
+    await expect(provider.verifyAccessToken(first.access_token)).rejects.toThrow();
+    await expect(provider.verifyAccessToken(second.access_token)).rejects.toThrow();
+    await expect(provider.exchangeRefreshToken(makeClient(), second.refresh_token!)).rejects.toThrow();
+    await expect(provider.verifyAccessToken(unrelated.access_token)).resolves.toBeDefined();
+  });
+
+  it('only narrows scopes and only for the owning client', async () => {
+    const tokens = await issueTokens(['messages:read', 'media:read']);
+    const otherClient = await provider.clientsStore.registerClient!(makeClient('client-2'));
+    await expect(provider.exchangeRefreshToken(otherClient, tokens.refresh_token!)).rejects.toThrow();
+    await expect(provider.exchangeRefreshToken(makeClient(), tokens.refresh_token!, ['messages:send'])).rejects.toThrow(
+      /not granted/,
+    );
+
+    const narrowed = await provider.exchangeRefreshToken(makeClient(), tokens.refresh_token!, ['messages:read']);
+    expect((await provider.verifyAccessToken(narrowed.access_token)).scopes).toEqual(['messages:read']);
+    // The refresh token keeps the original grant
+    const widened = await provider.exchangeRefreshToken(makeClient(), narrowed.refresh_token!);
+    expect(widened.scope).toBe('messages:read media:read');
+  });
+
+  it('expires access tokens after an hour', async () => {
+    vi.useFakeTimers();
+    const tokens = await issueTokens();
+    vi.advanceTimersByTime(3601_000);
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow();
+    await expect(provider.exchangeRefreshToken(makeClient(), tokens.refresh_token!)).resolves.toBeDefined();
+  });
+
+  it('revokes refresh tokens with revokeToken and revokeAllTokens', async () => {
+    const first = await issueTokens();
+    await provider.revokeToken(makeClient(), { token: first.refresh_token! });
+    await expect(provider.verifyAccessToken(first.access_token)).rejects.toThrow();
+
+    const second = await issueTokens();
+    provider.revokeAllTokens();
+    await expect(provider.exchangeRefreshToken(makeClient(), second.refresh_token!)).rejects.toThrow();
   });
 });
 
@@ -158,6 +269,13 @@ describe('tokens', () => {
     await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow();
   });
 
+  it('revokeServerTokens invalidates the tokens of the server\'s own account', async () => {
+    const tokens = await issueToken();
+    provider.revokeServerTokens();
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow();
+    await expect(provider.exchangeRefreshToken(makeClient(), tokens.refresh_token!)).rejects.toThrow();
+  });
+
   it('revokeToken only revokes for the owning client', async () => {
     const tokens = await issueToken();
     const otherClient = await provider.clientsStore.registerClient!(makeClient('client-2'));
@@ -168,11 +286,241 @@ describe('tokens', () => {
   });
 });
 
+describe('scopes', () => {
+  it('grants the requested scopes and reports them with the token', async () => {
+    const client = makeClient();
+    const { verifier, challenge } = pkcePair();
+    const code = new URL(await authorize(client, challenge, undefined, ['messages:read', 'media:read'])).searchParams.get('code')!;
+    const tokens = await provider.exchangeAuthorizationCode(client, code, verifier, REDIRECT_URI);
+    expect(tokens.scope).toBe('messages:read media:read');
+
+    const provider2 = new WhatsAppOAuthProvider(fakeWhatsApp, storePath);
+    expect((await provider2.verifyAccessToken(tokens.access_token)).scopes).toEqual(['messages:read', 'media:read']);
+  });
+
+  it('grants every scope when none is requested', async () => {
+    const client = makeClient();
+    const { verifier, challenge } = pkcePair();
+    const code = new URL(await authorize(client, challenge)).searchParams.get('code')!;
+    const tokens = await provider.exchangeAuthorizationCode(client, code, verifier, REDIRECT_URI);
+    expect((await provider.verifyAccessToken(tokens.access_token)).scopes).toContain('session:admin');
+  });
+
+  it('rejects unknown scopes', async () => {
+    const { challenge } = pkcePair();
+    await expect(authorize(makeClient(), challenge, undefined, ['messages:read', 'admin'])).rejects.toThrow(/Unknown scope.*admin/);
+  });
+
+  it('keeps full access for tokens stored without scopes', async () => {
+    const raw = 'legacy-token-value';
+    fs.writeFileSync(storePath, JSON.stringify({
+      clients: {},
+      tokens: {
+        [createHash('sha256').update(raw).digest('hex')]: {
+          clientId: 'x', issuedAt: 0, expiresAt: Math.floor(Date.now() / 1000) + 60,
+        },
+      },
+    }));
+    const fresh = new WhatsAppOAuthProvider(fakeWhatsApp, storePath);
+    expect((await fresh.verifyAccessToken(raw)).scopes).toContain('messages:send');
+  });
+});
+
+describe('administration', () => {
+  async function issueTokens(clientId = 'client-1') {
+    const client = makeClient(clientId);
+    const { verifier, challenge } = pkcePair();
+    const code = new URL(await authorize(client, challenge)).searchParams.get('code')!;
+    return provider.exchangeAuthorizationCode(client, code, verifier, REDIRECT_URI);
+  }
+
+  it('lists clients with their live tokens', async () => {
+    const first = await issueTokens();
+    await provider.exchangeRefreshToken(makeClient(), first.refresh_token!);
+    const [client] = provider.listClients();
+    expect(client).toMatchObject({ clientId: 'client-1', clientName: 'test', redirectUris: [REDIRECT_URI] });
+    // Both access tokens, and only the rotated refresh token
+    expect(client.tokens.map((token) => token.type).sort()).toEqual(['access_token', 'access_token', 'refresh_token']);
+    expect(JSON.stringify(client)).not.toContain(first.access_token);
+  });
+
+  it('revokes the tokens of one client', async () => {
+    const mine = await issueTokens();
+    await provider.clientsStore.registerClient!(makeClient('client-2'));
+    const theirs = await issueTokens('client-2');
+    expect(provider.revokeClientTokens('client-1')).toBe(2);
+    await expect(provider.verifyAccessToken(mine.access_token)).rejects.toThrow();
+    await expect(provider.verifyAccessToken(theirs.access_token)).resolves.toBeDefined();
+  });
+
+  it('deletes registrations and prunes stale ones', async () => {
+    const tokens = await issueTokens();
+    expect(provider.deleteClient('client-1')).toBe(true);
+    expect(provider.deleteClient('client-1')).toBe(false);
+    expect(provider.clientsStore.getClient('client-1')).toBeUndefined();
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow();
+
+    await provider.clientsStore.registerClient!({ ...makeClient('old'), client_id_issued_at: 0 });
+    await provider.clientsStore.registerClient!({ ...makeClient('old-in-use'), client_id_issued_at: 0 });
+    await provider.clientsStore.registerClient!(makeClient('new'));
+    await issueTokens('old-in-use');
+    expect(provider.pruneClients(24 * 60 * 60)).toEqual(['old']);
+    expect(provider.listClients().map((client) => client.clientId).sort()).toEqual(['new', 'old-in-use']);
+  });
+
+  it('introspects tokens (RFC 7662)', async () => {
+    const tokens = await issueTokens();
+    expect(provider.introspect(tokens.access_token)).toMatchObject({
+      active: true,
+      client_id: 'client-1',
+      token_type: 'Bearer',
+      token_use: 'access_token',
+      scope: expect.stringContaining('messages:read'),
+    });
+    expect(provider.introspect(tokens.refresh_token!, 'client-1')).toMatchObject({
+      active: true,
+      token_type: 'Bearer',
+      token_use: 'refresh_token',
+    });
+    // Other clients cannot probe the token, and unknown or used tokens are inactive
+    expect(provider.introspect(tokens.access_token, 'client-2')).toEqual({ active: false });
+    expect(provider.introspect('garbage')).toEqual({ active: false });
+    await provider.exchangeRefreshToken(makeClient(), tokens.refresh_token!);
+    expect(provider.introspect(tokens.refresh_token!)).toEqual({ active: false });
+  });
+});
+
+describe('per-principal accounts', () => {
+  const linked = new Set<string>();
+  const invalidate = new Map<string, () => void>();
+
+  const principalAccount = (name: string): Account =>
+    ({
+      name,
+      whatsapp: {
+        isAuthenticated: () => linked.has(name),
+        initialize: async () => {},
+        destroy: async () => {},
+        onSessionInvalidated: (listener: () => void) => invalidate.set(name, listener),
+        getSessionDataPath: () => path.join(os.tmpdir(), 'principal-sessions-test', name),
+      },
+      scheduler: { start() {}, stop() {} },
+    }) as unknown as Account;
+
+  beforeEach(async () => {
+    linked.clear();
+    const registry = new AccountRegistry([{ name: 'default', whatsapp: fakeWhatsApp } as Account]);
+    const principals = new PrincipalAccounts(registry, {
+      idleMs: 60_000,
+      maxOpen: 10,
+      startScheduler: false,
+      create: principalAccount,
+    });
+    provider = new WhatsAppOAuthProvider(fakeWhatsApp, storePath, null, principals);
+    await provider.clientsStore.registerClient!(makeClient());
+    await provider.clientsStore.registerClient!(makeClient('client-2'));
+  });
+
+  /** Authorize `client`, linking its account if the flow asks for that, and exchange the code. */
+  async function link(client: OAuthClientInformationFull) {
+    const { verifier, challenge } = pkcePair();
+    let url = await authorize(client, challenge);
+    if (url.startsWith('/oauth/link')) {
+      const txn = txnOf(url);
+      linked.add(provider.getTransaction(txn)!.account!);
+      url = provider.completeTransaction(txn);
+    }
+    const code = new URL(url).searchParams.get('code')!;
+    const tokens = await provider.exchangeAuthorizationCode(client, code, verifier, REDIRECT_URI);
+    return { tokens, account: (await provider.verifyAccessToken(tokens.access_token)).extra?.account as string };
+  }
+
+  it('links a new account for each client, even while the server\'s own is linked', async () => {
+    const { challenge } = pkcePair();
+    const url = await authorize(makeClient(), challenge);
+    expect(url).toMatch(/^\/oauth\/link\?txn=/);
+    const txn = txnOf(url);
+    expect(provider.getTransaction(txn)!.account).toMatch(/^oauth-/);
+    expect(() => provider.completeTransaction(txn)).toThrow(/not authenticated/i);
+
+    const first = await link(makeClient());
+    const second = await link(makeClient('client-2'));
+    expect(first.account).toMatch(/^oauth-/);
+    expect(second.account).not.toBe(first.account);
+  });
+
+  it('keeps the account across refreshes and later authorizations', async () => {
+    const { tokens, account } = await link(makeClient());
+    const refreshed = await provider.exchangeRefreshToken(makeClient(), tokens.refresh_token!);
+    expect((await provider.verifyAccessToken(refreshed.access_token)).extra).toEqual({ account });
+
+    // Still linked: once allowed, the next authorization needs no new link
+    const { challenge } = pkcePair();
+    expect(await authorize(makeClient(), challenge)).toMatch(/^http/);
+    expect((await link(makeClient())).account).toBe(account);
+    expect(provider.listClients()[0].tokens.every((token) => token.account === account)).toBe(true);
+  });
+
+  it('keeps the account after its tokens were revoked', async () => {
+    const { account } = await link(makeClient());
+    provider.revokeClientTokens('client-1');
+    expect((await link(makeClient())).account).toBe(account);
+    expect(provider.listClients().find((client) => client.clientId === 'client-1')!.account).toBe(account);
+  });
+
+  it('keeps principals\' tokens when the server\'s own session is invalidated', async () => {
+    const { tokens } = await link(makeClient());
+    provider.revokeServerTokens();
+    await expect(provider.verifyAccessToken(tokens.access_token)).resolves.toBeDefined();
+  });
+
+  it('revokes only the tokens of an account whose session was invalidated', async () => {
+    const first = await link(makeClient());
+    const second = await link(makeClient('client-2'));
+    invalidate.get(first.account)!();
+    await expect(provider.verifyAccessToken(first.tokens.access_token)).rejects.toThrow();
+    await expect(provider.exchangeRefreshToken(makeClient(), first.tokens.refresh_token!)).rejects.toThrow();
+    await expect(provider.verifyAccessToken(second.tokens.access_token)).resolves.toBeDefined();
+  });
+
+  it('refuses principal tokens once per-principal accounts are off', async () => {
+    const { tokens } = await link(makeClient());
+    const shared = new WhatsAppOAuthProvider(fakeWhatsApp, storePath);
+    await expect(shared.verifyAccessToken(tokens.access_token)).rejects.toThrow(/MCP_OAUTH_PER_PRINCIPAL/);
+  });
+});
+
 describe('store resilience', () => {
-  it('starts empty when the store file is corrupt', () => {
+  it('refuses a corrupt store file instead of starting empty', () => {
     fs.writeFileSync(storePath, 'not json at all {');
-    const fresh = new WhatsAppOAuthProvider(fakeWhatsApp, storePath);
-    expect(fresh.clientsStore.getClient('client-1')).toBeUndefined();
+    expect(() => new WhatsAppOAuthProvider(fakeWhatsApp, storePath)).toThrow(OAuthStoreError);
+    expect(() => new WhatsAppOAuthProvider(fakeWhatsApp, storePath)).toThrow(/is corrupt/);
+  });
+
+  it('writes atomically, leaving no temp file behind', () => {
+    expect(fs.existsSync(storePath)).toBe(true);
+    expect(fs.existsSync(`${storePath}.tmp`)).toBe(false);
+    expect(fs.statSync(storePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('encrypts the store at rest when given a key', async () => {
+    const encrypted = new WhatsAppOAuthProvider(fakeWhatsApp, storePath, 'store-secret');
+    await encrypted.clientsStore.registerClient!(makeClient('client-secret-name'));
+    const raw = fs.readFileSync(storePath, 'utf8');
+    expect(JSON.parse(raw)).toMatchObject({ encrypted: 'aes-256-gcm' });
+    expect(raw).not.toContain('client-secret-name');
+
+    const reopened = new WhatsAppOAuthProvider(fakeWhatsApp, storePath, 'store-secret');
+    expect(reopened.clientsStore.getClient('client-secret-name')).toBeDefined();
+    // Plain stores are migrated: client-1 was written unencrypted by beforeEach
+    expect(reopened.clientsStore.getClient('client-1')).toBeDefined();
+  });
+
+  it('refuses an encrypted store without the right key', async () => {
+    const encrypted = new WhatsAppOAuthProvider(fakeWhatsApp, storePath, 'store-secret');
+    await encrypted.clientsStore.registerClient!(makeClient('client-2'));
+    expect(() => new WhatsAppOAuthProvider(fakeWhatsApp, storePath)).toThrow(/is encrypted; set MCP_OAUTH_STORE_KEY/);
+    expect(() => new WhatsAppOAuthProvider(fakeWhatsApp, storePath, 'wrong')).toThrow(/cannot be decrypted/);
   });
 
   it('drops expired tokens on load', async () => {
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AccessPolicy, chatIdOfMessageId, PolicyViolationError, type PolicyConfig } from '../src/services/policy.js';
+import { DraftStore } from '../src/services/drafts.js';
+import type { MessageScheduler } from '../src/services/scheduler.js';
+import { registerApprovalTools } from '../src/tools/approvals.js';
+import { registerPolicyGuard } from '../src/tools/guard.js';
+import { registerSchedulerTools } from '../src/tools/scheduler.js';
+import { registerMessageTools } from '../src/tools/messages.js';
+import { registerChatTools } from '../src/tools/chats.js';
+import { registerGroupTools } from '../src/tools/groups.js';
+import type { WhatsAppService } from '../src/services/whatsapp.js';
+
+const saved = new Set(['111@c.us']);
+const makePolicy = (config: PolicyConfig) => new AccessPolicy(config, async (jid) => saved.has(jid));
+
+describe('AccessPolicy', () => {
+  it('allows everything without rules', async () => {
+    const policy = makePolicy({});
+    expect(policy.restricts('write')).toBe(false);
+    await expect(policy.check('write', 'anyone@c.us')).resolves.toBeUndefined();
+  });
+
+  it('matches JID globs, with deny taking precedence over allow', async () => {
+    const policy = makePolicy({ write: { allow: ['49*@c.us', '*@g.us'], deny: ['4915*@c.us'] } });
+    expect(await policy.allows('write', '4930123@c.us')).toBe(true);
+    expect(await policy.allows('write', '123-456@g.us')).toBe(true);
+    await expect(policy.check('write', '4915123@c.us')).rejects.toThrow('write.deny "4915*@c.us"');
+    await expect(policy.check('write', '3312@c.us')).rejects.toThrow('write.allow (no pattern matches)');
+    // Reading is not limited by write rules
+    expect(await policy.allows('read', '3312@c.us')).toBe(true);
+  });
+
+  it('restricts to groups or one-to-one chats', async () => {
+    const groups = makePolicy({ write: { only: 'groups' } });
+    await expect(groups.check('write', '1@c.us')).rejects.toThrow('write.only "groups"');
+    expect(await groups.allows('write', '1-2@g.us')).toBe(true);
+
+    const contacts = makePolicy({ read: { only: 'contacts' } });
+    expect(await contacts.allows('read', '1@c.us')).toBe(true);
+    await expect(contacts.check('read', '1-2@g.us')).rejects.toThrow('read.only "contacts"');
+  });
+
+  it('limits one-to-one chats to saved contacts', async () => {
+    const policy = makePolicy({ write: { savedContactsOnly: true } });
+    expect(await policy.allows('write', '111@c.us')).toBe(true);
+    expect(await policy.allows('write', '1-2@g.us')).toBe(true); // groups are not contacts
+    const error = await policy.check('write', '222@c.us').catch((e) => e);
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    expect(error).toMatchObject({ rule: 'write.savedContactsOnly', jid: '222@c.us', access: 'write' });
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => makePolicy({ write: { only: 'everyone' as never } })).toThrow(/write.only/);
+    expect(() => makePolicy({ read: { allow: '*' as never } })).toThrow(/read.allow/);
+  });
+
+  it('finds the chat of serialized message IDs', () => {
+    expect(chatIdOfMessageId('true_123@c.us_3EB0ABC')).toBe('123@c.us');
+    expect(chatIdOfMessageId('false_1-2@g.us_3EB0ABC_456@c.us')).toBe('1-2@g.us');
+    expect(chatIdOfMessageId('3EB0ABC')).toBeNull();
+  });
+});
+
+describe('policy guard', () => {
+  let cleanup: (() => Promise<void>) | null = null;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+  });
+
+  async function connect(config: PolicyConfig) {
+    const service = {
+      sendMessage: vi.fn(async () => ({ id: { _serialized: 'sent-1' }, timestamp: 1 })),
+      reactToMessage: vi.fn(async () => {}),
+      listChats: vi.fn(async () => [{ id: '1@c.us' }, { id: '1-2@g.us' }]),
+      getMessages: vi.fn(async () => ({ messages: [], hasMore: false, nextCursor: null })),
+      searchMessages: vi.fn(async () => ({ total: 0, offset: 0, hasMore: false, results: [] })),
+      getInviteGroupId: vi.fn(async () => '1-2@g.us'),
+      joinGroupByInvite: vi.fn(async () => '1-2@g.us'),
+    };
+    const scheduler = {
+      list: vi.fn(() => [
+        { id: 'job-1', recipientJid: '1@c.us', text: 'private', sendAt: 1 },
+        { id: 'job-2', recipientJid: '1-2@g.us', text: 'to the group', sendAt: 1 },
+      ]),
+    };
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-drafts-test-'));
+    const drafts = new DraftStore(path.join(dir, 'drafts.json'), path.join(dir, 'decisions.jsonl'));
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    const policy = makePolicy(config);
+    registerApprovalTools(server, drafts, { requireApproval: false, reviewPage: true, policy });
+    registerPolicyGuard(server, policy, service as unknown as WhatsAppService);
+    registerMessageTools(server, service as unknown as WhatsAppService, policy);
+    registerChatTools(server, service as unknown as WhatsAppService);
+    registerGroupTools(server, service as unknown as WhatsAppService);
+    registerSchedulerTools(server, scheduler as unknown as MessageScheduler);
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    cleanup = async () => {
+      await client.close();
+      await server.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    };
+    return { client, service, drafts };
+  }
+
+  const text = (result: unknown): string =>
+    (result as { content: Array<{ type: string; text?: string }> }).content[0]?.text ?? '';
+
+  it('refuses writes to blocked recipients and names the rule', async () => {
+    const { client, service } = await connect({ write: { only: 'groups' } });
+    const blocked = await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(blocked.isError).toBe(true);
+    expect(text(blocked)).toBe('Blocked by policy rule write.only "groups": writing to 1@c.us is not allowed.');
+    expect(service.sendMessage).not.toHaveBeenCalled();
+
+    await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1-2@g.us', message: 'hi' } });
+    expect(service.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the chat a message ID belongs to', async () => {
+    const { client, service } = await connect({ write: { deny: ['1@c.us'] } });
+    const result = await client.callTool({
+      name: 'react_to_message',
+      arguments: { message_id: 'false_1@c.us_3EB0', emoji: '👍' },
+    });
+    expect(text(result)).toMatch(/write.deny "1@c.us"/);
+    expect(service.reactToMessage).not.toHaveBeenCalled();
+  });
+
+  it('guards reads and filters cross-chat listings', async () => {
+    const { client, service } = await connect({ read: { only: 'groups' } });
+    const blocked = await client.callTool({ name: 'list_messages', arguments: { chat_id: '1@c.us' } });
+    expect(text(blocked)).toMatch(/read.only "groups"/);
+    expect(service.getMessages).not.toHaveBeenCalled();
+
+    const chats = await client.callTool({ name: 'list_chats', arguments: {} });
+    expect(JSON.parse(text(chats))).toEqual([{ id: '1-2@g.us' }]);
+  });
+
+  it('filters scheduled messages and drafts down to readable chats', async () => {
+    const { client, drafts } = await connect({ read: { only: 'groups' } });
+    const jobs = await client.callTool({ name: 'list_scheduled_messages', arguments: {} });
+    expect(JSON.parse(text(jobs)).map((job: { id: string }) => job.id)).toEqual(['job-2']);
+
+    drafts.create('send_message', { recipient_jid: '1@c.us', message: 'private' });
+    const visible = drafts.create('send_message', { recipient_jid: '1-2@g.us', message: 'to the group' });
+    drafts.create('react_to_message', { message_id: 'false_1@c.us_3EB0', emoji: '👍' });
+    const listed = await client.callTool({ name: 'list_pending_drafts', arguments: {} });
+    expect(JSON.parse(text(listed)).drafts.map((draft: { id: string }) => draft.id)).toEqual([visible.id]);
+  });
+
+  it('hands the read policy to search_messages, so it filters before paging', async () => {
+    const { client, service } = await connect({ read: { only: 'groups' } });
+    await client.callTool({ name: 'search_messages', arguments: { query: 'invoice' } });
+    const calls = service.searchMessages.mock.calls as unknown as Array<[string, { readable: (jid: string) => Promise<boolean> }]>;
+    const [, options] = calls[0];
+    expect(await options.readable('1@c.us')).toBe(false);
+    expect(await options.readable('1-2@g.us')).toBe(true);
+  });
+
+  it('checks the group an invite leads to before joining', async () => {
+    const { client, service } = await connect({ write: { deny: ['1-2@g.us'] } });
+    const result = await client.callTool({ name: 'join_group_by_invite', arguments: { invite: 'AbCdEfGhIjKl' } });
+    expect(text(result)).toMatch(/write.deny "1-2@g.us"/);
+    expect(service.getInviteGroupId).toHaveBeenCalledWith('AbCdEfGhIjKl');
+    expect(service.joinGroupByInvite).not.toHaveBeenCalled();
+  });
+});
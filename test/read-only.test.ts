@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { READ_ONLY_TOOLS, registerOnly, WRITE_TOOLS } from '../src/tools/hooks.js';
+import { registerApprovalTools } from '../src/tools/approvals.js';
+import { registerAccountTools } from '../src/tools/accounts.js';
+import { registerAuthTools } from '../src/tools/auth.js';
+import { registerContactTools } from '../src/tools/contacts.js';
+import { registerChatTools } from '../src/tools/chats.js';
+import { registerMessageTools } from '../src/tools/messages.js';
+import { registerMediaTools } from '../src/tools/media.js';
+import { registerGroupTools } from '../src/tools/groups.js';
+import { registerSchedulerTools } from '../src/tools/scheduler.js';
+import { registerNotificationTools } from '../src/tools/notifications.js';
+import { AccountRegistry, type Account } from '../src/services/accounts.js';
+import { DraftStore } from '../src/services/drafts.js';
+import type { MessageScheduler } from '../src/services/scheduler.js';
+import type { WhatsAppService } from '../src/services/whatsapp.js';
+
+// Tools that change state but are neither sends nor chat writes
+const OTHER_WRITES = ['logout', 'cancel_scheduled_message'];
+
+describe('read-only mode', () => {
+  let dir: string | null = null;
+  let cleanup: (() => Promise<void>) | null = null;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  /** Register every tool module the way createServer does, optionally read-only. */
+  async function connect(readOnly: boolean) {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'read-only-test-'));
+    const service = {
+      waitForAuthOutcome: vi.fn(async () => {}),
+      isAuthenticated: vi.fn(() => true),
+      getLatestPairingCode: vi.fn(() => null),
+      onMessageEvent: vi.fn(() => () => {}),
+    } as unknown as WhatsAppService;
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerApprovalTools(server, new DraftStore(path.join(dir, 'drafts.json'), path.join(dir, 'decisions.jsonl')), {
+      requireApproval: false,
+      reviewPage: true,
+    });
+    if (readOnly) registerOnly(server, READ_ONLY_TOOLS);
+    registerAuthTools(server, service, readOnly);
+    registerAccountTools(server, new AccountRegistry([{ name: 'default', whatsapp: service } as Account]));
+    registerContactTools(server, service);
+    registerChatTools(server, service);
+    registerMessageTools(server, service);
+    registerMediaTools(server, service);
+    registerGroupTools(server, service);
+    registerSchedulerTools(server, {} as MessageScheduler);
+    registerNotificationTools(server, service);
+    server.tool('ping', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    cleanup = async () => {
+      await client.close();
+      await server.close();
+    };
+    const { tools } = await client.listTools();
+    return { client, names: tools.map((tool) => tool.name) };
+  }
+
+  it('classifies every tool as a read or a write', async () => {
+    const { names } = await connect(false);
+    const unclassified = names.filter(
+      (name) => !READ_ONLY_TOOLS.has(name) && !WRITE_TOOLS.has(name) && !OTHER_WRITES.includes(name),
+    );
+    expect(unclassified).toEqual([]);
+  });
+
+  it('registers only read tools', async () => {
+    const { client, names } = await connect(true);
+    expect(names.sort()).toEqual([...READ_ONLY_TOOLS].sort());
+
+    const result = await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(result.isError).toBe(true);
+  });
+
+  it('reports the mode in check_auth_status', async () => {
+    const { client } = await connect(true);
+    const result = await client.callTool({ name: 'check_auth_status', arguments: {} });
+    const text = (result as { content: Array<{ text: string }> }).content[0].text;
+    expect(text).toMatch(/read-only tools/);
+    expect(text).toMatch(/Mode: read-only \(WHATSAPP_READ_ONLY\)/);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerWhatsAppResources } from '../src/resources/whatsapp.js';
+import { makeService, sleep, type FakeClient } from './helpers/fake-client.js';
+
+let fake: FakeClient;
+let client: Client;
+let updates: string[];
+let cleanup: () => Promise<void>;
+
+const rawMessage = (id: string, chat: string) => ({
+  id: { _serialized: id, remote: chat },
+  body: `body of ${id}`,
+  from: chat,
+  to: 'me@c.us',
+  timestamp: 1_700_000_000,
+  fromMe: false,
+  hasMedia: false,
+  type: 'chat',
+});
+
+const rawChat = (jid: string, name: string, messages: unknown[] = []) => ({
+  id: { _serialized: jid },
+  name,
+  isGroup: jid.endsWith('@g.us'),
+  unreadCount: 0,
+  timestamp: 1_700_000_000,
+  fetchMessages: async () => messages,
+});
+
+beforeEach(async () => {
+  const made = makeService();
+  fake = made.fake();
+  fake.emit('ready');
+  const server = new McpServer({ name: 'test', version: '0.0.0' });
+  registerWhatsAppResources(server, made.service);
+
+  updates = [];
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test-client', version: '0.0.0' });
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updates.push(notification.params.uri);
+  });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  cleanup = async () => {
+    await client.close();
+    await server.close();
+  };
+});
+
+afterEach(async () => {
+  await cleanup();
+});
+
+describe('resources', () => {
+  it('advertises the URI templates and lists one resource per chat', async () => {
+    fake.getChats.mockResolvedValue([rawChat('1@c.us', 'Alice')]);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      'whatsapp://chat/{jid}',
+      'whatsapp://chat/{jid}/messages',
+      'whatsapp://media/{messageId}',
+    ]);
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual([
+      'whatsapp://chats',
+      'whatsapp://chat/1@c.us',
+      'whatsapp://chat/1@c.us/messages',
+    ]);
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+  });
+
+  it('reads a chat and its messages', async () => {
+    const chat = rawChat('1@c.us', 'Alice', [rawMessage('m1', '1@c.us')]);
+    fake.getChatById.mockResolvedValue(chat);
+
+    const meta = await client.readResource({ uri: 'whatsapp://chat/1@c.us' });
+    expect(JSON.parse((meta.contents[0] as { text: string }).text).name).toBe('Alice');
+
+    const messages = await client.readResource({ uri: 'whatsapp://chat/1%40c.us/messages' });
+    expect(JSON.parse((messages.contents[0] as { text: string }).text)[0].id).toBe('m1');
+  });
+
+  it('returns media as a blob with its mime type', async () => {
+    fake.getMessageById.mockResolvedValue({
+      hasMedia: true,
+      downloadMedia: async () => ({ mimetype: 'image/png', data: 'iVBORw0KGgo=' }),
+    });
+    const result = await client.readResource({ uri: 'whatsapp://media/true_1@c.us_ABC' });
+    expect(result.contents[0]).toMatchObject({ mimeType: 'image/png', blob: 'iVBORw0KGgo=' });
+  });
+
+  it('notifies subscribers when a message in their chat changes', async () => {
+    await client.subscribeResource({ uri: 'whatsapp://chat/1@c.us/messages' });
+    fake.emit('message_create', rawMessage('m1', '2@c.us'));
+    fake.emit('message_create', rawMessage('m2', '1@c.us'));
+    await sleep(50);
+    expect(updates).toEqual(['whatsapp://chat/1@c.us/messages']);
+
+    await client.unsubscribeResource({ uri: 'whatsapp://chat/1@c.us/messages' });
+    fake.emit('message_create', rawMessage('m3', '1@c.us'));
+    await sleep(50);
+    expect(updates).toHaveLength(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { MessageScheduler, parseCatchUpPolicy, type CatchUpPolicy } from '../src/services/scheduler.js';
+
+let filePath: string;
+
+beforeEach(() => {
+  filePath = path.join(os.tmpdir(), `scheduler-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+});
+
+afterEach(() => {
+  if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+});
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function makeSender() {
+  return {
+    isAuthenticated: vi.fn(() => true),
+    sendMessage: vi.fn(async () => ({ id: { _serialized: 'sent-1' } })),
+    sendMedia: vi.fn(async () => ({ id: { _serialized: 'sent-media' } })),
+  };
+}
+
+function makeScheduler(sender = makeSender(), catchUp: CatchUpPolicy = { mode: 'send' }) {
+  // Never started: tests drive runDue() directly instead of the timer
+  const scheduler = new MessageScheduler({ filePath, sender: sender as never, catchUp });
+  return { scheduler, sender };
+}
+
+describe('MessageScheduler', () => {
+  it('persists jobs across restarts', () => {
+    const { scheduler } = makeScheduler();
+    const job = scheduler.schedule({ recipientJid: '1@c.us', text: 'later', sendAt: now() + 3600 });
+
+    const reloaded = makeScheduler().scheduler;
+    expect(reloaded.list()).toEqual([job]);
+  });
+
+  it('sends due text and media jobs and records the outcome', async () => {
+    const { scheduler, sender } = makeScheduler();
+    const text = scheduler.schedule({ recipientJid: '1@c.us', text: 'hi', sendAt: now() - 1 });
+    scheduler.schedule({ recipientJid: '1@c.us', media: { source: '/tmp/a.png', caption: 'look' }, sendAt: now() - 1 });
+    scheduler.schedule({ recipientJid: '1@c.us', text: 'not yet', sendAt: now() + 3600 });
+
+    await scheduler.runDue();
+    expect(sender.sendMessage).toHaveBeenCalledWith('1@c.us', 'hi');
+    expect(sender.sendMedia).toHaveBeenCalledWith('1@c.us', '/tmp/a.png', 'look');
+    expect(scheduler.list({ status: 'sent' })).toHaveLength(2);
+    expect(scheduler.list({ status: 'pending' })).toHaveLength(1);
+    expect(scheduler.list().find((job) => job.id === text.id)?.messageId).toBe('sent-1');
+  });
+
+  it('waits while WhatsApp is not ready', async () => {
+    const sender = makeSender();
+    sender.isAuthenticated.mockReturnValue(false);
+    const { scheduler } = makeScheduler(sender);
+    scheduler.schedule({ recipientJid: '1@c.us', text: 'hi', sendAt: now() - 1 });
+
+    await scheduler.runDue();
+    expect(sender.sendMessage).not.toHaveBeenCalled();
+    expect(scheduler.list({ status: 'pending' })).toHaveLength(1);
+  });
+
+  it('applies the catch-up policy to jobs that came due long ago', async () => {
+    const skipping = makeScheduler(makeSender(), { mode: 'window', maxLateSeconds: 3600 });
+    const recent = skipping.scheduler.schedule({ recipientJid: '1@c.us', text: 'a', sendAt: now() - 600 });
+    const stale = skipping.scheduler.schedule({ recipientJid: '1@c.us', text: 'b', sendAt: now() - 7200 });
+
+    await skipping.scheduler.runDue();
+    const byId = new Map(skipping.scheduler.list().map((job) => [job.id, job]));
+    expect(byId.get(recent.id)?.status).toBe('sent');
+    expect(byId.get(stale.id)?.status).toBe('skipped');
+    expect(skipping.sender.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries failed sends before giving up', async () => {
+    const sender = makeSender();
+    sender.sendMessage.mockRejectedValue(new Error('not connected'));
+    const { scheduler } = makeScheduler(sender);
+    const job = scheduler.schedule({ recipientJid: '1@c.us', text: 'hi', sendAt: now() - 1 });
+
+    await scheduler.runDue();
+    const afterFirst = scheduler.list()[0];
+    expect(afterFirst).toMatchObject({ status: 'pending', attempts: 1, lastError: 'not connected' });
+    expect(afterFirst.nextAttemptAt).toBeGreaterThan(now());
+
+    // Later attempts ignore the catch-up policy and end in 'failed'
+    for (let i = 0; i < 2; i++) {
+      scheduler.list()[0].nextAttemptAt = now() - 1;
+      await scheduler.runDue();
+    }
+    expect(scheduler.list()[0]).toMatchObject({ id: job.id, status: 'failed', attempts: 3 });
+  });
+
+  it('does not resend a job that was interrupted mid-send', async () => {
+    const sender = makeSender();
+    const { scheduler } = makeScheduler(sender);
+    scheduler.schedule({ recipientJid: '1@c.us', text: 'hi', sendAt: now() - 1 });
+    // Simulate a crash while the send is in flight: the file says 'sending'
+    sender.sendMessage.mockImplementation(async () => {
+      const persisted = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      expect(persisted[0].status).toBe('sending');
+      return new Promise<never>(() => {});
+    });
+    void scheduler.runDue();
+    await vi.waitFor(() => expect(sender.sendMessage).toHaveBeenCalled());
+
+    const restarted = makeScheduler();
+    await restarted.scheduler.runDue();
+    expect(restarted.sender.sendMessage).not.toHaveBeenCalled();
+    expect(restarted.scheduler.list()[0]).toMatchObject({ status: 'failed', lastError: expect.stringMatching(/Interrupted/) });
+  });
+
+  it('cancels pending jobs only', async () => {
+    const { scheduler } = makeScheduler();
+    const job = scheduler.schedule({ recipientJid: '1@c.us', text: 'hi', sendAt: now() + 60 });
+    expect(scheduler.cancel(job.id).status).toBe('cancelled');
+    expect(() => scheduler.cancel(job.id)).toThrow(/already cancelled/);
+    expect(() => scheduler.cancel('missing')).toThrow(/not found/);
+  });
+});
+
+describe('parseCatchUpPolicy', () => {
+  it('accepts send, skip and durations', () => {
+    expect(parseCatchUpPolicy('send')).toEqual({ mode: 'send' });
+    expect(parseCatchUpPolicy('SKIP')).toEqual({ mode: 'skip' });
+    expect(parseCatchUpPolicy('30m')).toEqual({ mode: 'window', maxLateSeconds: 1800 });
+    expect(parseCatchUpPolicy(undefined)).toEqual({ mode: 'window', maxLateSeconds: 3600 });
+    expect(parseCatchUpPolicy('whenever')).toEqual({ mode: 'window', maxLateSeconds: 3600 });
+  });
+});
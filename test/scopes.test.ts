@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { registerScopeGuard, TOOL_SCOPES } from '../src/tools/scopes.js';
+import { READ_ONLY_TOOLS, WRITE_TOOLS } from '../src/tools/hooks.js';
+import { registerMessageTools } from '../src/tools/messages.js';
+import { registerAuthTools } from '../src/tools/auth.js';
+import { ALL_SCOPES, type Scope } from '../src/auth/scopes.js';
+import type { WhatsAppService } from '../src/services/whatsapp.js';
+
+describe('tool scopes', () => {
+  let cleanup: (() => Promise<void>) | null = null;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+  });
+
+  /** Connect a client whose requests carry an OAuth token with `scopes` (none: no OAuth). */
+  async function connect(scopes?: Scope[]) {
+    const service = {
+      sendMessage: vi.fn(async () => ({ id: { _serialized: 'sent-1' }, timestamp: 1 })),
+      searchMessages: vi.fn(async () => ({ total: 0, results: [] })),
+      waitForAuthOutcome: vi.fn(async () => {}),
+      isAuthenticated: vi.fn(() => true),
+      getLatestPairingCode: vi.fn(() => null),
+    };
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerScopeGuard(server);
+    registerAuthTools(server, service as unknown as WhatsAppService);
+    registerMessageTools(server, service as unknown as WhatsAppService);
+
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    if (scopes) {
+      const authInfo: AuthInfo = { token: 't', clientId: 'dashboard', scopes };
+      const send = clientTransport.send.bind(clientTransport);
+      clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+    }
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    cleanup = async () => {
+      await client.close();
+      await server.close();
+    };
+    return { client, service };
+  }
+
+  const text = (result: unknown): string =>
+    (result as { content: Array<{ type: string; text?: string }> }).content[0]?.text ?? '';
+
+  it('maps every read and write tool to a scope', () => {
+    for (const name of [...READ_ONLY_TOOLS, ...WRITE_TOOLS, 'logout', 'cancel_scheduled_message']) {
+      expect(Object.hasOwn(TOOL_SCOPES, name), name).toBe(true);
+    }
+  });
+
+  it('lets a read-only client read but not send', async () => {
+    const { client, service } = await connect(['messages:read']);
+    const search = await client.callTool({ name: 'search_messages', arguments: { query: 'hi' } });
+    expect(search.isError).toBeFalsy();
+
+    const send = await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(send.isError).toBe(true);
+    expect(text(send)).toBe('Insufficient scope: send_message requires "messages:send", which this OAuth client was not granted.');
+    expect(service.sendMessage).not.toHaveBeenCalled();
+
+    const logout = await client.callTool({ name: 'logout', arguments: {} });
+    expect(text(logout)).toMatch(/requires "session:admin"/);
+  });
+
+  it('allows scope-free tools and clients with every scope', async () => {
+    const { client, service } = await connect([]);
+    const status = await client.callTool({ name: 'check_auth_status', arguments: {} });
+    expect(status.isError).toBeFalsy();
+    await cleanup?.();
+
+    const full = await connect([...ALL_SCOPES]);
+    await full.client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(full.service.sendMessage).toHaveBeenCalledTimes(1);
+    expect(service.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('does not limit sessions without OAuth', async () => {
+    const { client, service } = await connect();
+    await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(service.sendMessage).toHaveBeenCalledTimes(1);
+  });
+});
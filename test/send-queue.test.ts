@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SendQueue, SendRateLimitError, type SendLimits } from '../src/services/send-queue.js';
+
+// A queue on a fake clock: sleep() advances time instead of waiting
+function makeQueue(limits: Partial<SendLimits> = {}, filePath: string | null = null) {
+  let time = 1_000_000;
+  const sleeps: number[] = [];
+  const queue = new SendQueue({
+    filePath,
+    limits: {
+      enabled: true,
+      minIntervalMs: 1_000,
+      jitterMs: 0,
+      perRecipientPerMinute: 100,
+      globalPerMinute: 100,
+      dailyCap: 0,
+      maxWaitMs: 60_000,
+      ...limits,
+    },
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    random: () => 0.5,
+  });
+  return { queue, sleeps, advance: (ms: number) => (time += ms) };
+}
+
+const send = (value = 'sent') => async () => value;
+
+describe('SendQueue', () => {
+  it('spaces sends by the minimum interval plus jitter', async () => {
+    const { queue, sleeps } = makeQueue({ jitterMs: 400 });
+    await Promise.all([queue.run('1@c.us', send()), queue.run('2@c.us', send()), queue.run('1@c.us', send())]);
+    expect(sleeps).toEqual([200, 1_200, 1_200]);
+  });
+
+  it('defers a send until the per-recipient limit allows it', async () => {
+    const { queue, sleeps } = makeQueue({ minIntervalMs: 0, perRecipientPerMinute: 2 });
+    await queue.run('1@c.us', send());
+    await queue.run('1@c.us', send());
+    await queue.run('2@c.us', send()); // other recipients are unaffected
+    expect(sleeps).toEqual([]);
+
+    await queue.run('1@c.us', send());
+    expect(sleeps).toEqual([60_000]);
+  });
+
+  it('does not hold up other recipients while one waits for its limit', async () => {
+    let time = 1_000_000;
+    const queue = new SendQueue({
+      limits: { enabled: true, minIntervalMs: 0, jitterMs: 0, perRecipientPerMinute: 1, dailyCap: 0, maxWaitMs: 60_000 },
+      now: () => time,
+      // The recipient limit's wait never ends; short waits pass instantly
+      sleep: (ms) => (ms >= 60_000 ? new Promise(() => {}) : Promise.resolve(void (time += ms))),
+    });
+    await queue.run('1@c.us', send());
+    void queue.run('1@c.us', send());
+    await expect(queue.run('2@c.us', send('other'))).resolves.toBe('other');
+    expect(queue.status().queued).toBe(1);
+  });
+
+  it('rejects instead of waiting longer than maxWaitMs', async () => {
+    const { queue } = makeQueue({ minIntervalMs: 0, globalPerMinute: 1, maxWaitMs: 10_000 });
+    await queue.run('1@c.us', send());
+    const error = await queue.run('2@c.us', send()).catch((e) => e);
+    expect(error).toBeInstanceOf(SendRateLimitError);
+    expect(error.retryAfterMs).toBe(60_000);
+    expect(error.message).toMatch(/1 sends per minute/);
+  });
+
+  it('enforces the rolling daily cap', async () => {
+    const { queue, advance } = makeQueue({ minIntervalMs: 0, dailyCap: 2 });
+    await queue.run('1@c.us', send());
+    await queue.run('2@c.us', send());
+    await expect(queue.run('3@c.us', send())).rejects.toThrow(/Daily send cap of 2/);
+    expect(queue.status().dailyRemaining).toBe(0);
+
+    advance(24 * 60 * 60_000);
+    await expect(queue.run('3@c.us', send('later'))).resolves.toBe('later');
+  });
+
+  it('keeps going after a rejected send', async () => {
+    const { queue } = makeQueue();
+    const failed = queue.run('1@c.us', async () => {
+      throw new Error('boom');
+    });
+    const next = queue.run('2@c.us', send('ok'));
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+
+  it('counts only completed sends', async () => {
+    const { queue } = makeQueue({ dailyCap: 1 });
+    await expect(
+      queue.run('1@c.us', async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(queue.status()).toMatchObject({ sentLast24h: 0, dailyRemaining: 1 });
+    await expect(queue.run('1@c.us', send('ok'))).resolves.toBe('ok');
+  });
+
+  it('keeps the daily count across restarts', async () => {
+    const filePath = path.join(os.tmpdir(), `send-log-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+    try {
+      await makeQueue({ dailyCap: 2 }, filePath).queue.run('1@c.us', send());
+      const { queue } = makeQueue({ dailyCap: 2 }, filePath);
+      expect(queue.status()).toMatchObject({ sentLast24h: 1, dailyRemaining: 1 });
+    } finally {
+      fs.rmSync(filePath, { force: true });
+    }
+  });
+
+  it('reports recent sends per recipient', async () => {
+    const { queue } = makeQueue({ dailyCap: 10 });
+    await queue.run('1@c.us', send());
+    await queue.run('1@c.us', send());
+    await queue.run('2@c.us', send());
+    expect(queue.status()).toMatchObject({
+      queued: 0,
+      sentLastMinute: 3,
+      sentLast24h: 3,
+      dailyRemaining: 7,
+      busiestRecipients: [
+        { recipient: '1@c.us', sentLastMinute: 2 },
+        { recipient: '2@c.us', sentLastMinute: 1 },
+      ],
+    });
+  });
+
+  it('sends immediately when disabled', async () => {
+    const { queue, sleeps } = makeQueue({ enabled: false, dailyCap: 1 });
+    await queue.run('1@c.us', send());
+    await queue.run('1@c.us', send());
+    expect(sleeps).toEqual([]);
+  });
+});
@@ -6,7 +6,9 @@ import { registerAuthTools } from '../src/tools/auth.js';
 import { registerChatTools } from '../src/tools/chats.js';
 import { registerContactTools } from '../src/tools/contacts.js';
 import { registerMessageTools } from '../src/tools/messages.js';
+import { registerGroupTools } from '../src/tools/groups.js';
 import type { WhatsAppService } from '../src/services/whatsapp.js';
+import { SendRateLimitError } from '../src/services/send-queue.js';
 
 /** Duck-typed WhatsAppService covering everything the tool layer calls. */
 function makeFakeService() {
@@ -22,9 +24,14 @@ function makeFakeService() {
     getContactById: vi.fn(async () => null),
     listChats: vi.fn(async () => []),
     getChatById: vi.fn(async () => null),
-    getMessages: vi.fn(async () => []),
+    getMessages: vi.fn(async () => ({ messages: [], hasMore: false, nextCursor: null as string | null })),
     getMessageById: vi.fn(async () => null),
+    getMessageContext: vi.fn(async () => ({})),
+    searchMessages: vi.fn(async () => ({ total: 0, offset: 0, hasMore: false, results: [] })),
     sendMessage: vi.fn(async () => ({ id: { _serialized: 'sent-1' } })),
+    pinMessage: vi.fn(async () => {}),
+    getGroupInfo: vi.fn(async (): Promise<unknown> => ({})),
+    updateGroupSettings: vi.fn(async () => ({})),
     getClient: vi.fn(),
   };
 }
@@ -42,6 +49,7 @@ beforeEach(async () => {
   registerChatTools(server, serviceAsReal);
   registerContactTools(server, serviceAsReal);
   registerMessageTools(server, serviceAsReal);
+  registerGroupTools(server, serviceAsReal);
 
   const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
   client = new Client({ name: 'test-client', version: '0.0.0' });
@@ -65,7 +73,7 @@ describe('tool registration', () => {
     const names = tools.map((t) => t.name);
     for (const expected of [
       'get_qr_code', 'request_pairing_code', 'check_auth_status', 'logout',
-      'search_contacts', 'list_chats', 'list_messages', 'get_last_interaction', 'send_message',
+      'search_contacts', 'list_chats', 'list_messages', 'search_messages', 'get_last_interaction', 'send_message',
     ]) {
       expect(names).toContain(expected);
     }
@@ -164,6 +172,47 @@ describe('data tools', () => {
     expect(text(result)).toMatch(/not ready/);
   });
 
+  it('list_messages passes filters and the cursor through and returns paging info', async () => {
+    fakeService.getMessages.mockResolvedValue({ messages: [], hasMore: true, nextCursor: 'abc' });
+    const result = await client.callTool({
+      name: 'list_messages',
+      arguments: { chat_id: '1@c.us', after: '2024-05-01', from: '2@c.us', types: ['ptt'], from_me: false, cursor: 'xyz' },
+    });
+    expect(fakeService.getMessages).toHaveBeenCalledWith('1@c.us', {
+      limit: 50,
+      after: 1714521600,
+      before: undefined,
+      from: '2@c.us',
+      types: ['ptt'],
+      fromMe: false,
+      cursor: 'xyz',
+    });
+    expect(JSON.parse(text(result))).toMatchObject({ hasMore: true, nextCursor: 'abc' });
+  });
+
+  it('search_messages converts ISO dates to Unix seconds and passes filters through', async () => {
+    await client.callTool({
+      name: 'search_messages',
+      arguments: { query: 'invoice', chat_id: '1@c.us', after: '2024-05-01T00:00:00Z', before: '1714600000' },
+    });
+    expect(fakeService.searchMessages).toHaveBeenCalledWith('invoice', expect.objectContaining({
+      chatId: '1@c.us',
+      after: 1714521600,
+      before: 1714600000,
+      limit: 20,
+      offset: 0,
+    }));
+  });
+
+  it('search_messages rejects unparseable dates', async () => {
+    const result = await client.callTool({
+      name: 'search_messages',
+      arguments: { query: 'invoice', after: 'last tuesday' },
+    });
+    expect((result as { isError?: boolean }).isError).toBe(true);
+    expect(text(result)).toMatch(/Invalid after/);
+  });
+
   it('logout logs out and reinitializes for a fresh QR', async () => {
     const result = await client.callTool({ name: 'logout', arguments: {} });
     expect(fakeService.logout).toHaveBeenCalled();
@@ -171,3 +220,58 @@ describe('data tools', () => {
     expect(text(result)).toMatch(/logged out/i);
   });
 });
+
+describe('send_message', () => {
+  it('passes reply, mention and preview options to the service', async () => {
+    const result = await client.callTool({
+      name: 'send_message',
+      arguments: { recipient_jid: 'g1@g.us', message: 'yes', quoted_message_id: 'q-1', mentions: ['1@c.us'], link_preview: false },
+    });
+    expect(fakeService.sendMessage).toHaveBeenCalledWith('g1@g.us', 'yes', {
+      quotedMessageId: 'q-1',
+      mentions: ['1@c.us'],
+      linkPreview: false,
+      sendSeen: undefined,
+    });
+    expect(JSON.parse(text(result))).toMatchObject({ success: true, messageId: 'sent-1', quotedMessageId: 'q-1' });
+  });
+
+  it('reports a rate-limited send as an error with the retry hint', async () => {
+    fakeService.sendMessage.mockRejectedValueOnce(
+      new SendRateLimitError('Daily send cap of 500 messages reached; the next send is possible in 3 h', 3 * 3_600_000),
+    );
+    const result = await client.callTool({ name: 'send_message', arguments: { recipient_jid: '1@c.us', message: 'hi' } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/Daily send cap of 500.*3 h/);
+  });
+});
+
+describe('pin_message', () => {
+  it('translates the duration into seconds, 0 meaning unpin', async () => {
+    await client.callTool({ name: 'pin_message', arguments: { message_id: 'm1', duration: '24h' } });
+    await client.callTool({ name: 'pin_message', arguments: { message_id: 'm1', duration: 'unpin' } });
+    expect(fakeService.pinMessage).toHaveBeenNthCalledWith(1, 'm1', 86_400);
+    expect(fakeService.pinMessage).toHaveBeenNthCalledWith(2, 'm1', 0);
+  });
+});
+
+describe('group tools', () => {
+  it('maps tool arguments onto the group settings', async () => {
+    await client.callTool({
+      name: 'update_group_settings',
+      arguments: { group_jid: 'g1@g.us', messages_admins_only: true },
+    });
+    expect(fakeService.updateGroupSettings).toHaveBeenCalledWith('g1@g.us', {
+      messagesAdminsOnly: true,
+      infoAdminsOnly: undefined,
+      addMembersAdminsOnly: undefined,
+    });
+  });
+
+  it('reports service failures as tool errors', async () => {
+    fakeService.getGroupInfo.mockRejectedValue(new Error('1@c.us is not a group chat.'));
+    const result = await client.callTool({ name: 'get_group_info', arguments: { group_jid: '1@c.us' } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/not a group chat/);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseVCard } from '../src/utils/vcard.js';
+
+describe('parseVCard', () => {
+  it('decodes a WhatsApp contact card', () => {
+    const vcard = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;Jane;;;',
+      'FN:Jane Doe',
+      'ORG:Acme\\, Inc.;',
+      'item1.TEL;waid=4915112345678:+49 151 12345678',
+      'item1.X-ABLabel:Mobile',
+      'TEL;type=WORK:+49 30 1234567',
+      'EMAIL:jane@example.com',
+      'END:VCARD',
+    ].join('\n');
+
+    expect(parseVCard(vcard)).toEqual({
+      name: 'Jane Doe',
+      organization: 'Acme, Inc.',
+      email: 'jane@example.com',
+      phoneNumbers: [
+        { number: '+49 151 12345678', waId: '4915112345678', type: undefined },
+        { number: '+49 30 1234567', waId: undefined, type: 'WORK' },
+      ],
+    });
+  });
+
+  it('falls back to the structured name and joins folded lines', () => {
+    const vcard = 'BEGIN:VCARD\r\nN:Doe;Jo\r\n hn;;;\r\nEND:VCARD';
+    expect(parseVCard(vcard).name).toBe('John Doe');
+  });
+});
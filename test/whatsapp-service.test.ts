@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { makeService } from './helpers/fake-client.js';
+import type WAWebJS from 'whatsapp-web.js';
+import { makeFakeMessage, makeService } from './helpers/fake-client.js';
+import { quotedMessageIdOf } from '../src/services/whatsapp.js';
+import { SendQueue, SendRateLimitError } from '../src/services/send-queue.js';
 
 afterEach(() => {
   vi.useRealTimers();
@@ -287,3 +290,704 @@ describe('searchContacts', () => {
     expect(await service.searchContacts('nomatch')).toHaveLength(0);
   });
 });
+
+describe('getMessages', () => {
+  /** A chat whose fetchMessages behaves like WhatsApp Web: the N most recent of `count` messages. */
+  function fakeChat(count: number, overrides: (i: number) => Record<string, unknown> = () => ({})) {
+    const all = Array.from({ length: count }, (_, i) => ({
+      id: { _serialized: `m${i}`, remote: '1@c.us' },
+      body: `message ${i}`,
+      from: '1@c.us',
+      to: 'me@c.us',
+      timestamp: 1000 + i,
+      fromMe: false,
+      hasMedia: false,
+      type: 'chat',
+      ...overrides(i),
+    }));
+    return {
+      fetchMessages: vi.fn(async ({ limit }: { limit: number }) => all.slice(Math.max(0, all.length - limit))),
+    };
+  }
+
+  it('returns the most recent page with a cursor that continues further back', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const chat = fakeChat(120);
+    fake().getChatById.mockResolvedValue(chat);
+
+    const first = await service.getMessages('1@c.us', { limit: 50 });
+    expect(first.messages.map((m) => m.id)).toEqual(Array.from({ length: 50 }, (_, i) => `m${70 + i}`));
+    expect(first.hasMore).toBe(true);
+
+    const second = await service.getMessages('1@c.us', { limit: 50, cursor: first.nextCursor! });
+    expect(second.messages[0].id).toBe('m20');
+    expect(second.messages[49].id).toBe('m69');
+
+    const third = await service.getMessages('1@c.us', { limit: 50, cursor: second.nextCursor! });
+    expect(third.messages.map((m) => m.id)).toEqual(Array.from({ length: 20 }, (_, i) => `m${i}`));
+    expect(third.hasMore).toBe(false);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('loads further back until the filters are satisfied', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    // Only every 40th message is a voice note from the group member 2@c.us
+    const chat = fakeChat(400, (i) => (i % 40 === 0 ? { type: 'ptt', author: '2@c.us' } : {}));
+    fake().getChatById.mockResolvedValue(chat);
+
+    const page = await service.getMessages('1@c.us', { limit: 5, types: ['ptt'], from: '2@c.us' });
+    expect(page.messages.map((m) => m.id)).toEqual(['m200', 'm240', 'm280', 'm320', 'm360']);
+    expect(page.hasMore).toBe(true);
+    expect(chat.fetchMessages.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it('applies the time range and stops loading once past the after bound', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const chat = fakeChat(400);
+    fake().getChatById.mockResolvedValue(chat);
+
+    const page = await service.getMessages('1@c.us', { after: 1350, before: 1359 });
+    expect(page.messages.map((m) => m.timestamp)).toEqual(Array.from({ length: 10 }, (_, i) => 1350 + i));
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('pages through messages sharing a timestamp without skipping any', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(fakeChat(10, () => ({ timestamp: 1000 })));
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await service.getMessages('1@c.us', { limit: 3, cursor });
+      seen.push(...page.messages.map((m) => m.id));
+      if (!page.hasMore) break;
+      cursor = page.nextCursor!;
+    }
+    expect(seen.sort()).toEqual(Array.from({ length: 10 }, (_, i) => `m${i}`).sort());
+  });
+
+  it('reports older history when the scan limit is hit without a match', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const chat = fakeChat(5_100, (i) => (i < 50 ? { type: 'ptt' } : {}));
+    fake().getChatById.mockResolvedValue(chat);
+
+    const first = await service.getMessages('1@c.us', { limit: 10, types: ['ptt'] });
+    expect(first.messages).toEqual([]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await service.getMessages('1@c.us', { limit: 10, types: ['ptt'], cursor: first.nextCursor! });
+    expect(second.messages.map((m) => m.id)).toEqual(Array.from({ length: 10 }, (_, i) => `m${40 + i}`));
+    expect(second.hasMore).toBe(true);
+  });
+
+  it('serves pages from the archive while the client is not ready', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const chat = fakeChat(30);
+    fake().getChatById.mockResolvedValue(chat);
+    await service.getMessages('1@c.us', { limit: 30 }); // archives the history
+    fake().emit('disconnected', 'NAVIGATION');
+
+    const page = await service.getMessages('1@c.us', { limit: 20 });
+    expect(page.source).toBe('archive');
+    expect(page.messages.map((m) => m.id)).toEqual(Array.from({ length: 20 }, (_, i) => `m${10 + i}`));
+    const rest = await service.getMessages('1@c.us', { limit: 20, cursor: page.nextCursor! });
+    expect(rest.messages.map((m) => m.id)).toEqual(Array.from({ length: 10 }, (_, i) => `m${i}`));
+    expect(rest.hasMore).toBe(false);
+    expect(chat.fetchMessages).toHaveBeenCalledTimes(1);
+  });
+
+  it('merges archived history that WhatsApp Web no longer loads', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(fakeChat(30));
+    await service.getMessages('1@c.us', { limit: 30 });
+    // After a relink the browser only has the latest messages
+    const chat = fakeChat(30);
+    chat.fetchMessages.mockImplementation(async ({ limit }) => (await fakeChat(30).fetchMessages({ limit })).slice(-5));
+    fake().getChatById.mockResolvedValue(chat);
+
+    const page = await service.getMessages('1@c.us', { limit: 50 });
+    expect(page.source).toBe('live');
+    expect(page.messages).toHaveLength(30);
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(fakeChat(10));
+    await expect(service.getMessages('1@c.us', { cursor: 'garbage' })).rejects.toThrow(/Invalid cursor/);
+  });
+});
+
+describe('getMessageContext', () => {
+  function history(count: number, chatId: string) {
+    const all = Array.from({ length: count }, (_, i) => ({
+      id: { _serialized: `m${i}`, remote: chatId },
+      body: `message ${i}`,
+      from: i % 2 ? chatId : 'me@c.us',
+      to: i % 2 ? 'me@c.us' : chatId,
+      timestamp: 1000 + i,
+      fromMe: i % 2 === 0,
+      hasMedia: false,
+      type: 'chat',
+    }));
+    const chat = { fetchMessages: vi.fn(async ({ limit }: { limit: number }) => all.slice(Math.max(0, all.length - limit))) };
+    return { all, chat };
+  }
+
+  it('loads older history until the target is found and returns an exact window', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const { all, chat } = history(300, '1@c.us');
+    fake().getMessageById.mockResolvedValue(all[20]);
+    fake().getChatById.mockResolvedValue(chat);
+
+    const context = await service.getMessageContext('m20', 3, 2);
+    expect(context.chatId).toBe('1@c.us');
+    expect(context.targetMessage.id).toBe('m20');
+    expect(context.before.map((m) => m.id)).toEqual(['m17', 'm18', 'm19']);
+    expect(context.after.map((m) => m.id)).toEqual(['m21', 'm22']);
+  });
+
+  it('resolves the chat of an incoming message from its sender, not its recipient', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const { all, chat } = history(10, '1@c.us');
+    const incoming = { ...all[5], id: { _serialized: 'm5' } }; // no id.remote
+    fake().getMessageById.mockResolvedValue(incoming);
+    fake().getChatById.mockResolvedValue(chat);
+
+    await service.getMessageContext('m5', 1, 1);
+    expect(fake().getChatById).toHaveBeenCalledWith('1@c.us');
+  });
+
+  it('returns fewer messages at the edges of the history', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const { all, chat } = history(10, '1@c.us');
+    fake().getMessageById.mockResolvedValue(all[1]);
+    fake().getChatById.mockResolvedValue(chat);
+
+    const context = await service.getMessageContext('m1', 5, 20);
+    expect(context.before.map((m) => m.id)).toEqual(['m0']);
+    expect(context.after).toHaveLength(8);
+  });
+});
+
+describe('groups', () => {
+  function groupChat(overrides: Record<string, unknown> = {}) {
+    return {
+      id: { _serialized: 'g1@g.us' },
+      name: 'Team',
+      isGroup: true,
+      description: 'Weekly sync',
+      owner: { _serialized: 'owner@c.us' },
+      createdAt: new Date(1_700_000_000_000),
+      participants: [
+        { id: { _serialized: 'owner@c.us' }, isAdmin: true, isSuperAdmin: true },
+        { id: { _serialized: 'member@c.us' }, isAdmin: false, isSuperAdmin: false },
+      ],
+      groupMetadata: { announce: false, restrict: true, memberAddMode: 'admin_add' },
+      promoteParticipants: vi.fn(async () => ({ status: 200 })),
+      setSubject: vi.fn(async () => true),
+      setMessagesAdminsOnly: vi.fn(async () => true),
+      setInfoAdminsOnly: vi.fn(async () => true),
+      setAddMembersAdminsOnly: vi.fn(async () => true),
+      getInviteCode: vi.fn(async () => 'AbCdEfGhIjKl'),
+      ...overrides,
+    };
+  }
+
+  it('maps group info with participant admin flags and settings', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(groupChat());
+
+    const info = await service.getGroupInfo('g1@g.us');
+    expect(info).toMatchObject({
+      id: 'g1@g.us',
+      name: 'Team',
+      owner: 'owner@c.us',
+      createdAt: 1_700_000_000,
+      messagesAdminsOnly: false,
+      infoAdminsOnly: true,
+      addMembersAdminsOnly: true,
+    });
+    expect(info.participants).toContainEqual({ id: 'member@c.us', isAdmin: false, isSuperAdmin: false });
+  });
+
+  it('rejects chats that are not groups', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(groupChat({ isGroup: false }));
+
+    await expect(service.getGroupInfo('1@c.us')).rejects.toThrow(/not a group/);
+  });
+
+  it('surfaces failed participant operations and rejected changes as errors', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(
+      groupChat({
+        promoteParticipants: vi.fn(async () => ({ status: 403 })),
+        setSubject: vi.fn(async () => false),
+      }),
+    );
+
+    await expect(service.promoteGroupParticipants('g1@g.us', ['member@c.us'])).rejects.toThrow(/403/);
+    await expect(service.setGroupSubject('g1@g.us', 'New')).rejects.toThrow(/admin rights/);
+  });
+
+  it('only applies the settings that were given', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const group = groupChat();
+    fake().getChatById.mockResolvedValue(group);
+
+    await service.updateGroupSettings('g1@g.us', { messagesAdminsOnly: true });
+    expect(group.setMessagesAdminsOnly).toHaveBeenCalledWith(true);
+    expect(group.setInfoAdminsOnly).not.toHaveBeenCalled();
+    expect(group.setAddMembersAdminsOnly).not.toHaveBeenCalled();
+  });
+
+  it('builds invite links and accepts links or bare codes when joining', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(groupChat());
+
+    expect(await service.getGroupInviteLink('g1@g.us')).toBe('https://chat.whatsapp.com/AbCdEfGhIjKl');
+    expect(await service.joinGroupByInvite('https://chat.whatsapp.com/AbCdEfGhIjKl')).toBe('group-1@g.us');
+    expect(fake().acceptInvite).toHaveBeenCalledWith('AbCdEfGhIjKl');
+    await expect(service.joinGroupByInvite('not a code!')).rejects.toThrow(/Invalid invite/);
+  });
+
+  it('creates a group and reports its JID', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+
+    const group = await service.createGroup('Team', ['member@c.us']);
+    expect(fake().createGroup).toHaveBeenCalledWith('Team', ['member@c.us']);
+    expect(group.id).toBe('group-1@g.us');
+  });
+});
+
+describe('sendMessage', () => {
+  it('sends replies with mentions and renders missing @mention tokens', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+
+    await service.sendMessage('g1@g.us', 'see above @111', {
+      quotedMessageId: 'false_g1@g.us_ABC_111@c.us',
+      mentions: ['111@c.us', '222@c.us'],
+      linkPreview: false,
+    });
+    expect(fake().sendMessage).toHaveBeenCalledWith('g1@g.us', '@222 see above @111', {
+      quotedMessageId: 'false_g1@g.us_ABC_111@c.us',
+      mentions: ['111@c.us', '222@c.us'],
+      linkPreview: false,
+    });
+  });
+
+  it('sends plain text without options', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+
+    await service.sendMessage('1@c.us', 'hi');
+    expect(fake().sendMessage).toHaveBeenCalledWith('1@c.us', 'hi', {});
+  });
+
+  it('goes through the send queue and stops at its daily cap', async () => {
+    const sendQueue = new SendQueue({
+      limits: { enabled: true, minIntervalMs: 0, jitterMs: 0, dailyCap: 1 },
+    });
+    const { service, fake } = makeService({ sendQueue });
+    fake().emit('ready');
+
+    await service.sendMessage('1@c.us', 'first');
+    await expect(service.sendMessage('1@c.us', 'second')).rejects.toThrow(SendRateLimitError);
+    expect(fake().sendMessage).toHaveBeenCalledTimes(1);
+    expect(service.getSendQueueStatus()).toMatchObject({ sentLast24h: 1, dailyRemaining: 0 });
+  });
+});
+
+describe('reply and mention mapping', () => {
+  it('exposes the quoted message id and mentioned JIDs', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    (fake() as unknown as { info: unknown }).info = { wid: { _serialized: 'me@c.us' } };
+    const reply = (quotedParticipant: string) => ({
+      id: { _serialized: `r-${quotedParticipant}`, remote: 'g1@g.us' },
+      body: 'agreed',
+      from: 'g1@g.us',
+      to: 'me@c.us',
+      timestamp: 1000,
+      fromMe: false,
+      hasMedia: false,
+      type: 'chat',
+      hasQuotedMsg: true,
+      mentionedIds: [{ _serialized: '222@c.us' }],
+      _data: { quotedStanzaID: 'ABC', quotedRemoteJid: 'g1@g.us', quotedParticipant },
+    });
+
+    fake().getMessageById.mockResolvedValueOnce(reply('111@c.us'));
+    const theirs = await service.getMessageById('r-111@c.us');
+    expect(theirs).toMatchObject({
+      hasQuotedMsg: true,
+      quotedMsgId: 'false_g1@g.us_ABC_111@c.us',
+      mentionedIds: ['222@c.us'],
+    });
+
+    fake().getMessageById.mockResolvedValueOnce(reply('me@c.us'));
+    const mine = await service.getMessageById('r-me@c.us');
+    expect(mine?.quotedMsgId).toBe('true_g1@g.us_ABC_me@c.us');
+  });
+});
+
+describe('quotedMessageIdOf', () => {
+  const reply = (data: Record<string, unknown> | undefined, remote = '1@c.us') =>
+    ({ id: { _serialized: 'r1', remote }, from: remote, to: 'me@c.us', fromMe: false, _data: data }) as unknown as WAWebJS.Message;
+
+  it('rebuilds the quoted message id of a direct chat reply', () => {
+    const theirs = reply({ quotedStanzaID: 'ABC', quotedParticipant: '1@c.us' });
+    expect(quotedMessageIdOf(theirs, 'me@c.us')).toBe('false_1@c.us_ABC');
+    // Participants may arrive as serialized Wid objects
+    const mine = reply({ quotedStanzaID: 'ABC', quotedParticipant: { _serialized: 'me@c.us' } });
+    expect(quotedMessageIdOf(mine, 'me@c.us')).toBe('true_1@c.us_ABC');
+  });
+
+  it('is undefined without the raw quote context', () => {
+    expect(quotedMessageIdOf(reply({}), 'me@c.us')).toBeUndefined();
+    expect(quotedMessageIdOf(reply(undefined), 'me@c.us')).toBeUndefined();
+  });
+});
+
+describe('message actions', () => {
+  it('reacts, stars, deletes and pins through the message object', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const message = makeFakeMessage();
+    fake().getMessageById.mockResolvedValue(message);
+
+    await service.reactToMessage('m1', '👍');
+    await service.starMessage('m1', false);
+    await service.deleteMessage('m1', true);
+    await service.pinMessage('m1', 86_400);
+    await service.pinMessage('m1', 0);
+    expect(message.react).toHaveBeenCalledWith('👍');
+    expect(message.unstar).toHaveBeenCalled();
+    expect(message.delete).toHaveBeenCalledWith(true);
+    expect(message.pin).toHaveBeenCalledWith(86_400);
+    expect(message.unpin).toHaveBeenCalled();
+  });
+
+  it('edits own messages only and reports an expired edit window', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getMessageById.mockResolvedValueOnce(makeFakeMessage());
+    expect((await service.editMessage('m1', 'fixed')).body).toBe('fixed');
+
+    fake().getMessageById.mockResolvedValueOnce(makeFakeMessage({ fromMe: false }));
+    await expect(service.editMessage('m1', 'x')).rejects.toThrow(/not sent by this account/);
+
+    fake().getMessageById.mockResolvedValueOnce(makeFakeMessage({ edit: vi.fn(async () => null) }));
+    await expect(service.editMessage('m1', 'x')).rejects.toThrow(/15 minutes/);
+  });
+
+  it('forwards to every chat and reports failures per chat', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const message = makeFakeMessage({
+      forward: vi.fn(async (chatId: string) => {
+        if (chatId === 'bad@c.us') throw new Error('chat not found');
+      }),
+    });
+    fake().getMessageById.mockResolvedValue(message);
+
+    const results = await service.forwardMessage('m1', ['a@c.us', 'bad@c.us', 'b@c.us']);
+    expect(results).toEqual([
+      { chatId: 'a@c.us', success: true },
+      { chatId: 'bad@c.us', success: false, error: 'chat not found' },
+      { chatId: 'b@c.us', success: true },
+    ]);
+  });
+
+  it('fails clearly for unknown messages', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    await expect(service.reactToMessage('missing', '👍')).rejects.toThrow(/Message not found: missing/);
+  });
+});
+
+describe('message mapping', () => {
+  const raw = (overrides: Record<string, unknown>) => ({
+    id: { _serialized: 'm1', remote: 'g1@g.us' },
+    body: '',
+    from: 'g1@g.us',
+    to: 'me@c.us',
+    author: '111@c.us',
+    timestamp: 1000,
+    fromMe: false,
+    hasMedia: false,
+    type: 'chat',
+    ack: 2,
+    hasQuotedMsg: false,
+    mentionedIds: [],
+    ...overrides,
+  });
+
+  async function mapped(overrides: Record<string, unknown>) {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getMessageById.mockResolvedValue(raw(overrides));
+    return (await service.getMessageById('m1'))!;
+  }
+
+  it('carries author, ack, forwarding and quote details', async () => {
+    const message = await mapped({
+      isForwarded: true,
+      forwardingScore: 4,
+      hasQuotedMsg: true,
+      _data: { quotedMsg: { body: 'original', type: 'chat' }, quotedParticipant: { _serialized: '222@c.us' } },
+    });
+    expect(message).toMatchObject({
+      author: '111@c.us',
+      ack: 2,
+      isForwarded: true,
+      forwardingScore: 4,
+      quotedMsg: { body: 'original', type: 'chat', author: '222@c.us' },
+    });
+  });
+
+  it('decodes locations, contact cards, links and polls', async () => {
+    expect(
+      (await mapped({ type: 'location', location: { latitude: '52.52', longitude: '13.40', name: 'Office' } })).location,
+    ).toEqual({ latitude: 52.52, longitude: 13.4, name: 'Office', address: undefined, url: undefined });
+    expect((await mapped({ type: 'vcard', vCards: ['BEGIN:VCARD\nEND:VCARD'] })).vCards).toHaveLength(1);
+    expect((await mapped({ links: [{ link: 'https://example.com', isSuspicious: false }] })).links).toHaveLength(1);
+    expect(
+      (
+        await mapped({
+          type: 'poll_creation',
+          pollName: 'Lunch?',
+          pollOptions: [{ name: 'Pizza', localId: 0 }, { name: 'Sushi', localId: 1 }],
+          allowMultipleAnswers: true,
+        })
+      ).poll,
+    ).toMatchObject({ question: 'Lunch?', options: ['Pizza', 'Sushi'], allowMultipleAnswers: true, totalVoters: 0 });
+  });
+
+  it('reports edits, revocations, durations and media metadata', async () => {
+    const voiceNote = await mapped({
+      type: 'ptt',
+      hasMedia: true,
+      duration: '7',
+      latestEditSenderTimestampMs: 2_000_500,
+      _data: { mimetype: 'audio/ogg; codecs=opus', size: 4096 },
+    });
+    expect(voiceNote).toMatchObject({
+      duration: 7,
+      editedAt: 2000,
+      media: { mimetype: 'audio/ogg; codecs=opus', size: 4096 },
+    });
+    expect((await mapped({ type: 'revoked' })).isRevoked).toBe(true);
+  });
+
+  it('omits details that do not apply', async () => {
+    const message = await mapped({});
+    for (const key of ['isForwarded', 'quotedMsg', 'location', 'vCards', 'links', 'poll', 'editedAt', 'isRevoked', 'media']) {
+      expect(message).not.toHaveProperty(key);
+    }
+  });
+});
+
+describe('author names', () => {
+  const groupHistory = () => {
+    const all = ['111@c.us', '222@c.us', '111@c.us', '333@c.us'].map((author, i) => ({
+      id: { _serialized: `m${i}`, remote: 'g1@g.us' },
+      body: `message ${i}`,
+      from: 'g1@g.us',
+      to: 'me@c.us',
+      author,
+      timestamp: 1000 + i,
+      fromMe: false,
+      hasMedia: false,
+      type: 'chat',
+    }));
+    return { all, chat: { fetchMessages: vi.fn(async () => all) } };
+  };
+  const contacts = [
+    { id: { _serialized: '111@c.us' }, name: 'Alice', pushname: 'ali', number: '111' },
+    { id: { _serialized: '222@c.us' }, name: undefined, pushname: 'Bob', number: '222' },
+  ];
+
+  it('resolves group senders with one bulk contact lookup', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getChatById.mockResolvedValue(groupHistory().chat);
+    fake().getContacts.mockResolvedValue(contacts);
+
+    const page = await service.getMessages('g1@g.us', { limit: 10 });
+    expect(page.messages.map((m) => [m.author, m.authorName])).toEqual([
+      ['111@c.us', 'Alice'],
+      ['222@c.us', 'Bob'],
+      ['111@c.us', 'Alice'],
+      ['333@c.us', '333'], // not a contact: number from the JID
+    ]);
+    expect(fake().getContacts).toHaveBeenCalledTimes(1);
+    expect(fake().getContactById).not.toHaveBeenCalled();
+
+    // Cached: an unknown author does not refetch every call
+    await service.getMessages('g1@g.us', { limit: 10 });
+    expect(fake().getContacts).toHaveBeenCalledTimes(1);
+  });
+
+  it('names the messages around a context target', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const { all, chat } = groupHistory();
+    fake().getMessageById.mockResolvedValue(all[1]);
+    fake().getChatById.mockResolvedValue(chat);
+    fake().getContacts.mockResolvedValue(contacts);
+
+    const context = await service.getMessageContext('m1', 1, 1);
+    expect(context.before[0].authorName).toBe('Alice');
+    expect(context.targetMessage.authorName).toBe('Bob');
+    expect(context.after[0].authorName).toBe('Alice');
+  });
+});
+
+describe('polls', () => {
+  const pollMessage = () =>
+    makeFakeMessage({
+      id: { _serialized: 'poll-1', remote: 'g1@g.us' },
+      type: 'poll_creation',
+      pollName: 'Lunch?',
+      pollOptions: [{ name: 'Pizza', localId: 0 }, { name: 'Sushi', localId: 1 }],
+      allowMultipleAnswers: false,
+    });
+
+  it('tallies votes from vote_update events and notifies listeners', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const poll = pollMessage();
+    const events: unknown[] = [];
+    service.onMessageEvent((event) => events.push(event));
+
+    fake().emit('vote_update', { voter: '111@c.us', selectedOptions: [{ name: 'Pizza', localId: 0 }], parentMessage: poll });
+    fake().emit('vote_update', { voter: '222@c.us', selectedOptions: [{ name: 'Pizza', localId: 0 }], parentMessage: poll });
+    fake().emit('vote_update', { voter: '111@c.us', selectedOptions: [{ name: 'Sushi', localId: 1 }], parentMessage: poll });
+    fake().emit('vote_update', { voter: '333@c.us', selectedOptions: [], parentMessage: poll });
+
+    fake().getMessageById.mockResolvedValue(poll);
+    const message = await service.getMessageById('poll-1');
+    expect(message?.poll).toEqual({
+      question: 'Lunch?',
+      options: ['Pizza', 'Sushi'],
+      allowMultipleAnswers: false,
+      votes: [
+        { option: 'Pizza', count: 1, voters: ['222@c.us'] },
+        { option: 'Sushi', count: 1, voters: ['111@c.us'] },
+      ],
+      totalVoters: 2,
+    });
+    expect(events).toHaveLength(4);
+    expect(events[0]).toMatchObject({ kind: 'vote', chatId: 'g1@g.us', vote: { voter: '111@c.us', selectedOptions: ['Pizza'] } });
+  });
+
+  it('picks up votes cast while the client was not listening', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const poll = pollMessage();
+    poll.getPollVotes.mockResolvedValue([{ voter: '111@c.us', selectedOptions: [{ name: 'Sushi', localId: 1 }] }]);
+    fake().getMessageById.mockResolvedValue(poll);
+
+    const message = await service.getMessageById('poll-1');
+    expect(message?.poll?.votes[1]).toEqual({ option: 'Sushi', count: 1, voters: ['111@c.us'] });
+  });
+
+  it('validates options before voting', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    (fake() as unknown as { info: unknown }).info = { wid: { _serialized: 'me@c.us' } };
+    const poll = pollMessage();
+    fake().getMessageById.mockResolvedValue(poll);
+
+    await expect(service.voteInPoll('poll-1', ['Tacos'])).rejects.toThrow(/Unknown poll option/);
+    await expect(service.voteInPoll('poll-1', ['Pizza', 'Sushi'])).rejects.toThrow(/only one option/);
+    const voted = await service.voteInPoll('poll-1', ['Pizza']);
+    expect(poll.vote).toHaveBeenCalledWith(['Pizza']);
+    expect(voted.poll?.votes[0].voters).toEqual(['me@c.us']);
+  });
+
+  it('rejects polls with too few or duplicate options', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    await expect(service.sendPoll('g1@g.us', 'Q', ['only'])).rejects.toThrow(/between 2 and 12/);
+    await expect(service.sendPoll('g1@g.us', 'Q', ['a', 'a'])).rejects.toThrow(/unique/);
+    await service.sendPoll('g1@g.us', 'Lunch?', ['Pizza', 'Sushi'], true);
+    const [, poll] = fake().sendMessage.mock.calls[0] as unknown as [string, { pollName: string; options: { allowMultipleAnswers: boolean } }];
+    expect(poll.pollName).toBe('Lunch?');
+    expect(poll.options.allowMultipleAnswers).toBe(true);
+  });
+});
+
+describe('locations, contact cards and stickers', () => {
+  it('sends a location with its details', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+
+    await service.sendLocation('1@c.us', 52.52, 13.405, { name: 'Office', address: 'Main St 1' });
+    const [, location] = fake().sendMessage.mock.calls[0] as unknown as [string, Record<string, unknown>];
+    expect(location).toMatchObject({ latitude: 52.52, longitude: 13.405, name: 'Office', address: 'Main St 1' });
+  });
+
+  it('shares contacts by JID and validates raw vCards', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const alice = { id: { _serialized: '111@c.us' } };
+    const bob = { id: { _serialized: '222@c.us' } };
+    fake().getContactById.mockImplementation(async (id: unknown) => (id === '111@c.us' ? alice : bob));
+
+    await service.sendContactCards('1@c.us', ['111@c.us']);
+    await service.sendContactCards('1@c.us', ['111@c.us', '222@c.us']);
+    expect(fake().sendMessage.mock.calls[0]).toEqual(['1@c.us', alice, undefined]);
+    expect(fake().sendMessage.mock.calls[1]).toEqual(['1@c.us', [alice, bob], undefined]);
+
+    await expect(service.sendVCard('1@c.us', 'FN:Nobody')).rejects.toThrow(/Invalid vCard/);
+    await service.sendVCard('1@c.us', 'BEGIN:VCARD\nFN:Jane\nEND:VCARD\n');
+    expect(fake().sendMessage.mock.calls[2]).toEqual(['1@c.us', 'BEGIN:VCARD\nFN:Jane\nEND:VCARD', { parseVCards: true }]);
+  });
+
+  it('sends WebP stickers as they are and refuses non-visual media', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    const webp = { mimetype: 'image/webp', data: 'UklGRg==' } as never;
+
+    await service.sendSticker('1@c.us', webp, { name: 'Pack', author: 'Me' });
+    expect(fake().sendMessage).toHaveBeenCalledWith('1@c.us', webp, {
+      sendMediaAsSticker: true,
+      stickerName: 'Pack',
+      stickerAuthor: 'Me',
+    });
+    await expect(service.sendSticker('1@c.us', { mimetype: 'application/pdf', data: '' } as never)).rejects.toThrow(
+      /Cannot make a sticker/,
+    );
+  });
+
+  it('decodes incoming contact cards', async () => {
+    const { service, fake } = makeService();
+    fake().emit('ready');
+    fake().getMessageById.mockResolvedValue(
+      makeFakeMessage({ type: 'vcard', vCards: ['BEGIN:VCARD\nFN:Jane\nTEL;waid=111:+111\nEND:VCARD'] }),
+    );
+
+    const message = await service.getMessageById('m1');
+    expect(message?.contacts).toEqual([{ name: 'Jane', phoneNumbers: [{ number: '+111', waId: '111', type: undefined }] }]);
+  });
+});